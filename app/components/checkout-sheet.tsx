@@ -0,0 +1,172 @@
+import { useState } from "react";
+
+import type { TieredCalculationResult } from "~/components/gift-calculator";
+import { formatItemDetail } from "~/components/gift-calculator";
+import type { BundleGroup, BundleItem } from "~/lib/optimizer";
+
+/** 計算結果を会計シートの画面（別タブ）へ渡すための localStorage のキー */
+const CHECKOUT_SHEET_STORAGE_KEY = "gift-bundle-optimizer:checkout-sheet";
+
+/** 会計シートに要る分だけの計算結果（trace・追加購入の提案などは渡さない） */
+export type CheckoutSheetSummary = {
+  stores: {
+    name: string;
+    tiers: { label: string; threshold: number; groups: BundleGroup[] }[];
+    leftover: BundleItem[];
+  }[];
+  totalGifts: number;
+  totalAmount: number;
+};
+
+/**
+ * ResultsPanel から会計シートを開く直前に呼ぶ。
+ * 容量オーバーやプライベートブラウズで保存できなければ false（呼び出し側でシートを開かない）
+ */
+export function storeCheckoutSheet(summary: TieredCalculationResult): boolean {
+  const sheet: CheckoutSheetSummary = {
+    stores: summary.stores.map((store) => ({
+      name: store.name,
+      tiers: store.tiers.map((tier) => ({
+        label: tier.label,
+        threshold: tier.threshold,
+        groups: tier.result.groups,
+      })),
+      leftover: store.leftover,
+    })),
+    totalGifts: summary.combined.totalGifts,
+    totalAmount: summary.combined.totalAmount,
+  };
+  try {
+    localStorage.setItem(CHECKOUT_SHEET_STORAGE_KEY, JSON.stringify(sheet));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** 保存されていない・読めないときは null */
+export function readCheckoutSheet(): CheckoutSheetSummary | null {
+  try {
+    const raw = localStorage.getItem(CHECKOUT_SHEET_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CheckoutSheetSummary) : null;
+  } catch {
+    return null;
+  }
+}
+
+type Checkout = {
+  /** 1 から（店舗・しきい値をまたいで通し番号） */
+  number: number;
+  storeName: string;
+  giftLabel: string;
+  threshold: number;
+  group: BundleGroup;
+};
+
+/** 店舗ごと・しきい値の順に会計を並べる */
+function listCheckouts(summary: CheckoutSheetSummary): Checkout[] {
+  let number = 0;
+  return summary.stores.flatMap((store) =>
+    store.tiers.flatMap((tier) =>
+      tier.groups.map((group) => ({
+        number: ++number,
+        storeName: store.name,
+        giftLabel: tier.label,
+        threshold: tier.threshold,
+        group,
+      }))
+    )
+  );
+}
+
+/** 会計ごとに番号・商品・合計・もらえる景品を並べ、チェックを付けながら進める */
+export function CheckoutSheet({ summary }: { summary: CheckoutSheetSummary }) {
+  const checkouts = listCheckouts(summary);
+  const [done, setDone] = useState<Set<number>>(() => new Set());
+  const multiStore = summary.stores.length > 1;
+
+  const toggle = (number: number) => {
+    setDone((prev) => {
+      const next = new Set(prev);
+      if (next.has(number)) next.delete(number);
+      else next.add(number);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-neutral-600">
+        共 {checkouts.length} 次結帳・預計獲得 {summary.totalGifts}{" "}
+        份贈品・總金額 ${summary.totalAmount.toLocaleString()}
+        <span className="print:hidden">
+          （已完成 {done.size}／{checkouts.length}）
+        </span>
+      </p>
+
+      <ol className="space-y-3">
+        {checkouts.map((checkout) => (
+          <li
+            key={checkout.number}
+            className="break-inside-avoid rounded-lg border border-neutral-300 p-4"
+          >
+            <label className="flex cursor-pointer items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1 size-5 shrink-0 accent-emerald-600"
+                checked={done.has(checkout.number)}
+                onChange={() => toggle(checkout.number)}
+              />
+              <div
+                className={
+                  done.has(checkout.number)
+                    ? "space-y-1 text-neutral-400 line-through print:text-neutral-900 print:no-underline"
+                    : "space-y-1"
+                }
+              >
+                <p className="font-semibold">
+                  結帳 {checkout.number}：
+                  {checkout.group.items
+                    .map((item) => `#${item.position}`)
+                    .join(", ")}{" "}
+                  — 合計 ${checkout.group.total.toLocaleString()} —{" "}
+                  {checkout.giftLabel}
+                </p>
+                <p className="text-xs text-neutral-600">
+                  {multiStore ? `${checkout.storeName}・` : ""}門檻 $
+                  {checkout.threshold.toLocaleString()}・可得{" "}
+                  {checkout.giftLabel} 1 份
+                </p>
+                <ul className="text-sm text-neutral-800">
+                  {checkout.group.items.map((item) => (
+                    <li key={item.position}>{formatItemDetail(item)}</li>
+                  ))}
+                </ul>
+              </div>
+            </label>
+          </li>
+        ))}
+      </ol>
+
+      {summary.stores.some((store) => store.leftover.length) ? (
+        <section className="break-inside-avoid space-y-2">
+          <h2 className="text-lg font-semibold">未使用的商品（不計入贈品）</h2>
+          {summary.stores.map((store, storeIndex) =>
+            store.leftover.length ? (
+              <div key={storeIndex}>
+                {multiStore ? (
+                  <p className="text-sm font-semibold">{store.name}</p>
+                ) : null}
+                <ul className="text-sm text-neutral-800">
+                  {store.leftover.map((item) => (
+                    <li key={item.position}>{formatItemDetail(item)}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : null
+          )}
+        </section>
+      ) : null}
+    </div>
+  );
+}
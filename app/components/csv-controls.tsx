@@ -0,0 +1,113 @@
+import { useRef, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import type {
+  CsvRowIssue,
+  PurchaseCsvRow,
+  ResultCsvStore,
+  ResultCsvTotals,
+} from "~/lib/csv";
+import { formatResultCsv, parsePurchaseCsv } from "~/lib/csv";
+
+/** 読めなかった行は多すぎると邪魔なので先頭だけ出す */
+const ISSUES_SHOWN = 5;
+
+type PurchaseCsvImportProps = {
+  onImport: (rows: PurchaseCsvRow[]) => void;
+  disabled: boolean;
+};
+
+export function PurchaseCsvImport({
+  onImport,
+  disabled,
+}: PurchaseCsvImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<{
+    fileName: string;
+    imported: number;
+    issues: CsvRowIssue[];
+  } | null>(null);
+
+  const handleFile = async (file: File) => {
+    const { rows, issues } = parsePurchaseCsv(await file.text());
+    if (rows.length) onImport(rows);
+    setReport({ fileName: file.name, imported: rows.length, issues });
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.currentTarget.files?.[0];
+          // 同じファイルをもう一度選べるように
+          event.currentTarget.value = "";
+          if (file) void handleFile(file);
+        }}
+      />
+      <Button
+        type="button"
+        variant="secondary"
+        disabled={disabled}
+        className="w-full border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+        onClick={() => inputRef.current?.click()}
+      >
+        從 CSV 匯入
+      </Button>
+      {report ? (
+        <div className="text-xs">
+          <p className={report.imported ? "text-emerald-300" : "text-red-300"}>
+            {report.fileName}：已匯入 {report.imported} 筆
+            {report.issues.length ? `，${report.issues.length} 行無法讀取` : ""}
+          </p>
+          {report.issues.length ? (
+            <ul className="mt-1 list-disc space-y-0.5 pl-4 text-red-300/90">
+              {report.issues.slice(0, ISSUES_SHOWN).map((issue) => (
+                <li key={issue.line}>
+                  第 {issue.line} 行：{issue.message}
+                </li>
+              ))}
+              {report.issues.length > ISSUES_SHOWN ? (
+                <li>其他 {report.issues.length - ISSUES_SHOWN} 行略</li>
+              ) : null}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+type ResultCsvExportProps = {
+  stores: ResultCsvStore[];
+  totals: ResultCsvTotals;
+};
+
+export function ResultCsvExport({ stores, totals }: ResultCsvExportProps) {
+  const handleExport = () => {
+    // BOM があると Excel でも中文が化けない
+    const blob = new Blob(["\uFEFF", formatResultCsv(stores, totals)], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "gift-bundles.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="secondary"
+      onClick={handleExport}
+      className="w-full border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+    >
+      匯出 CSV
+    </Button>
+  );
+}
@@ -1,5 +1,16 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router";
 
+import { PurchaseCsvImport, ResultCsvExport } from "~/components/csv-controls";
+import { storeCheckoutSheet } from "~/components/checkout-sheet";
+import { OrderTextPaste } from "~/components/order-text-paste";
+import type { ComparisonSnapshot } from "~/components/scenario-comparison";
+import {
+  MAX_SNAPSHOTS,
+  ScenarioComparison,
+} from "~/components/scenario-comparison";
+import { ScenarioPicker } from "~/components/scenario-picker";
+import { SolverTraceTimeline } from "~/components/solver-trace";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import {
@@ -10,46 +21,584 @@ import {
   FieldLegend,
   FieldSet,
 } from "~/components/ui/field";
-import type { BundleOptimizationResult } from "~/lib/gift-optimizer";
-import { MAX_ITEMS, optimizeGiftBundles } from "~/lib/gift-optimizer";
+import type { PurchaseCsvRow } from "~/lib/csv";
+import type {
+  BundleGroup,
+  BundleItem,
+  BundleItemMeta,
+  BundleOptimizationResult,
+  ConstraintIssue,
+  GroupConstraints,
+  RemovableItems,
+  ResultViolation,
+  SearchStrategy,
+  SecondaryObjective,
+  TieredOptimizeOptions,
+  TierObjective,
+  TopUpCandidate,
+  TopUpSuggestion,
+} from "~/lib/optimizer";
+import {
+  expandByQuantity,
+  findRemovableItems,
+  MAX_TOTAL_UNITS,
+  suggestTopUp,
+  validateOptimizationResult,
+} from "~/lib/optimizer";
+import type { OptimizerRun } from "~/lib/optimizer-client";
+import { runOptimizerInWorker } from "~/lib/optimizer-client";
+import type { SavedScenario } from "~/lib/saved-scenarios";
+import type { Scenario } from "~/lib/scenario-url";
+import {
+  decodeScenario,
+  DEFAULT_TIME_BUDGET_MS,
+  encodeScenario,
+  SCENARIO_PARAM,
+  TIME_BUDGET_CHOICES,
+} from "~/lib/scenario-url";
 
 type PurchaseItem = {
   price: string;
   quantity: string;
+  /** 以下は表示用（任意）。結果のグループ・未使用に表示する */
+  name: string;
+  sku: string;
+  note: string;
+  /** 同じコードの商品は必ず同じ会計（グループ）に入れる */
+  groupKey: string;
+  /** コードの違う商品とは同じ会計にしない（販売元・倉庫など） */
+  exclusiveKey: string;
+  /** どの店舗で買うか（Store.id） */
+  storeId: string;
+};
+
+export type GiftTier = {
+  label: string;
+  threshold: string;
+  /** 景品1個の価値（空欄ならしきい値の金額で計算） */
+  value: string;
+  /** 景品の上限数（空欄なら無制限） */
+  maxGifts: string;
+};
+
+/** 店舗ごとに会計・しきい値が別（店舗どうしで金額は合算できない） */
+type Store = {
+  id: string;
+  name: string;
+  tiers: GiftTier[];
 };
 
-type TieredCalculationResult = {
-  tierA: BundleOptimizationResult;
-  tierB: BundleOptimizationResult;
+/** 1回の会計ごとの制限（点数は空欄なら制限なし） */
+type CheckoutRules = {
+  maxItems: string;
+  minItems: string;
+  keepSkuTogether: boolean;
+};
+
+export type TierOutcome = {
+  label: string;
+  threshold: number;
+  value: number;
+  maxGifts?: number;
+  result: BundleOptimizationResult;
+};
+
+export type StoreOutcome = {
+  name: string;
+  tiers: TierOutcome[];
+  leftover: BundleItem[];
+  constraintIssues: ConstraintIssue[];
+  /** 会計ごとの制限・コードを使っていないときだけ出す（制約を見ない目安なので） */
+  topUp: TopUpSuggestion | null;
+  removable: RemovableItems;
+  /** 入力の1行ごとの position（行ごと買わなくてよい行をまとめて表示する用） */
+  rowPositions: number[][];
+};
+
+export type TieredCalculationResult = {
+  stores: StoreOutcome[];
+  /** 全店舗の合計 */
   combined: {
     totalAmount: number;
     coveredAmount: number;
     totalGifts: number;
+    totalValue: number;
+    gap: number;
+    /** 時間切れで探索を打ち切った（同じ入力でも端末の速さで結果が変わりうる） */
+    timedOut: boolean;
   };
 };
 
-const DEFAULT_THRESHOLD_A = "2000";
-const DEFAULT_THRESHOLD_B = "1000";
-const DEFAULT_ITEMS: PurchaseItem[] = [{ price: "", quantity: "" }];
+export const DEFAULT_TIERS: GiftTier[] = [
+  { label: "贈品A", threshold: "2000", value: "", maxGifts: "" },
+  { label: "贈品B", threshold: "1000", value: "", maxGifts: "" },
+];
+export const MAX_TIERS = 6;
+const DEFAULT_STORES: Store[] = [
+  { id: "store-1", name: "商店1", tiers: DEFAULT_TIERS },
+];
+const EMPTY_ITEM: PurchaseItem = {
+  price: "",
+  quantity: "",
+  name: "",
+  sku: "",
+  note: "",
+  groupKey: "",
+  exclusiveKey: "",
+  storeId: DEFAULT_STORES[0].id,
+};
+const DEFAULT_ITEMS: PurchaseItem[] = [EMPTY_ITEM];
+const DEFAULT_OBJECTIVE: TierObjective = "lexicographic";
+const DEFAULT_SECONDARY_OBJECTIVE: SecondaryObjective = "minOvershoot";
+const DEFAULT_CHECKOUT_RULES: CheckoutRules = {
+  maxItems: "",
+  minItems: "",
+  keepSkuTogether: false,
+};
+const EXACT_OPTIONS: TieredOptimizeOptions = { mode: "exact" };
+const DEFAULT_STRATEGY: SearchStrategy = "greedy";
+const STRATEGY_CHOICES: { value: SearchStrategy; label: string }[] = [
+  { value: "greedy", label: "一般" },
+  { value: "restarts", label: "隨機重啟" },
+  { value: "annealing", label: "模擬退火" },
+];
+const OBJECTIVE_CHOICES: { value: TierObjective; label: string }[] = [
+  { value: "lexicographic", label: "高門檻優先" },
+  { value: "totalGifts", label: "贈品總數優先" },
+  { value: "weighted", label: "贈品價值優先" },
+];
+const SECONDARY_OBJECTIVE_CHOICES: {
+  value: SecondaryObjective;
+  label: string;
+}[] = [
+  { value: "minOvershoot", label: "超出金額最少" },
+  { value: "maxLeftover", label: "保留金額最多" },
+  { value: "minCheckouts", label: "結帳次數最少" },
+];
+const TIER_ACCENTS = [
+  {
+    card: "from-amber-300/60 to-amber-500/50 text-amber-100",
+    text: "text-amber-200",
+  },
+  { card: "from-sky-300/60 to-sky-500/50 text-sky-100", text: "text-sky-200" },
+  {
+    card: "from-violet-300/60 to-violet-500/50 text-violet-100",
+    text: "text-violet-200",
+  },
+  {
+    card: "from-rose-300/60 to-rose-500/50 text-rose-100",
+    text: "text-rose-200",
+  },
+  {
+    card: "from-lime-300/60 to-lime-500/50 text-lime-100",
+    text: "text-lime-200",
+  },
+  {
+    card: "from-teal-300/60 to-teal-500/50 text-teal-100",
+    text: "text-teal-200",
+  },
+];
+
+const tierAccent = (index: number) => TIER_ACCENTS[index % TIER_ACCENTS.length];
+
+/** これを超えるグループ・未使用は、金額ごとにまとめて表示する（大口注文用） */
+const COLLAPSE_GROUPS_OVER = 20;
+
+/** 入力行の品名・SKU・備註（空欄は省く）。何も無ければ undefined */
+function toItemMeta(item: PurchaseItem): BundleItemMeta | undefined {
+  const meta: BundleItemMeta = {};
+  if (item.name.trim()) meta.name = item.name.trim();
+  if (item.sku.trim()) meta.sku = item.sku.trim();
+  if (item.note.trim()) meta.note = item.note.trim();
+  return Object.keys(meta).length ? meta : undefined;
+}
+
+/** 品名（なければ SKU）。どちらも無ければ null */
+function itemName(item: BundleItem) {
+  const { name, sku } = item.meta ?? {};
+  if (name && sku) return `${name}（${sku}）`;
+  return name || sku || null;
+}
+
+/** 同じ商品とみなすキー（金額＋品名＋exclusiveKey） */
+function itemKey(item: BundleItem) {
+  return `${item.amount}:${itemName(item) ?? ""}:${item.exclusiveKey ?? ""}`;
+}
+
+/** グループ内の exclusiveKey（あれば1種類だけ） */
+function groupExclusiveKey(group: BundleGroup) {
+  return group.items.find((item) => item.exclusiveKey)?.exclusiveKey ?? null;
+}
+
+/** 例: "#1、#2、#5"（多いときは先頭だけ） */
+export function formatPositions(positions: number[]) {
+  const shown = positions.slice(0, 8).map((position) => `#${position}`);
+  return positions.length > shown.length
+    ? `${shown.join("、")}…等${positions.length}件`
+    : shown.join("、");
+}
+
+function describeConstraintIssue(issue: ConstraintIssue) {
+  switch (issue.kind) {
+    case "conflictingExclusiveKeys":
+      return `${formatPositions(
+        issue.positions
+      )} 必須一起結帳，但分屬不同的分開結帳代碼（${issue.exclusiveKeys.join(
+        "、"
+      )}），因此未使用。`;
+    case "blockTooLarge":
+      return `${formatPositions(issue.positions)} 必須一起結帳（${
+        issue.size
+      }件），超過每次結帳最多 ${issue.maxItems} 件，因此未使用。`;
+    case "giftsLost":
+      return `若不套用結帳限制與代碼條件，至少可獲得 ${issue.withoutConstraints} 份贈品（目前 ${issue.withConstraints} 份）。`;
+  }
+}
 
-export function GiftCalculator() {
-  const [thresholdA, setThresholdA] = useState(DEFAULT_THRESHOLD_A);
-  const [thresholdB, setThresholdB] = useState(DEFAULT_THRESHOLD_B);
-  const [items, setItems] = useState<PurchaseItem[]>(DEFAULT_ITEMS);
+function describeViolation(violation: ResultViolation) {
+  switch (violation.kind) {
+    case "missingItem":
+      return `#${violation.position} 沒有出現在任何組合或未使用中`;
+    case "duplicateItem":
+      return `#${violation.position} 出現了 ${violation.count} 次`;
+    case "unknownItem":
+      return `#${violation.position} 不在輸入的商品中`;
+    case "amountMismatch":
+      return `#${violation.position} 的金額與輸入不同`;
+    case "groupTotalMismatch":
+      return `第 ${violation.groupIndex + 1} 組的合計與商品金額不符`;
+    case "belowThreshold":
+      return `第 ${
+        violation.groupIndex + 1
+      } 組的合計 $${violation.itemsTotal.toLocaleString()} 未達門檻 $${violation.threshold.toLocaleString()}`;
+    case "summaryMismatch":
+      return "統計數字與組合內容不符";
+  }
+}
+
+const storeGifts = (store: StoreOutcome) =>
+  store.tiers.reduce((sum, tier) => sum + tier.result.totalGifts, 0);
+
+/** 金額・商品構成が同じグループをまとめる */
+function collapseGroups(groups: BundleGroup[]) {
+  const byKey = new Map<string, { group: BundleGroup; count: number }>();
+  for (const group of groups) {
+    const key = group.items.map(itemKey).sort().join("+");
+    const found = byKey.get(key);
+    if (found) found.count++;
+    else byKey.set(key, { group, count: 1 });
+  }
+  return [...byKey.values()].sort((a, b) => b.count - a.count);
+}
+
+/** 例: "茶具組 ×2 + 馬克杯 ×1"、品名が無ければ "$1,400 ×2 + $300" */
+function formatItemSummary(items: BundleItem[], separator: string) {
+  const counts = new Map<string, { item: BundleItem; count: number }>();
+  for (const item of items) {
+    const key = itemKey(item);
+    const found = counts.get(key);
+    if (found) found.count++;
+    else counts.set(key, { item, count: 1 });
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.item.amount - a.item.amount)
+    .map(({ item, count }) => {
+      const name = itemName(item);
+      if (name) return `${name} ×${count}`;
+      return count > 1
+        ? `$${item.amount.toLocaleString()} ×${count}`
+        : `$${item.amount.toLocaleString()}`;
+    })
+    .join(separator);
+}
+
+/** 例: "#3 茶具組: $1,400（禮盒包裝）" */
+export function formatItemDetail(item: BundleItem) {
+  const name = itemName(item);
+  const note = item.meta?.note ? `（${item.meta.note}）` : "";
+  return `#${item.position}${
+    name ? ` ${name}` : ""
+  }: $${item.amount.toLocaleString()}${note}`;
+}
+
+/** 例: "99, 150 390" → 候補価格（空なら []） */
+function parseTopUpCatalog(raw: string): TopUpCandidate[] {
+  const parts = raw.split(/[\s,，、]+/).filter(Boolean);
+  return parts.map((part) => {
+    const amount = Number(part.replace(/^\$/, ""));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error("請正確輸入加購候選價格。");
+    }
+    return { amount };
+  });
+}
+
+/** 例: ["整筆 #3–#5（$300 ×3）", "#7（$150）"]（画面の文言）。行の全点が外せるならまとめる */
+function describeRemovable(
+  removable: RemovableItems,
+  rowPositions: number[][]
+) {
+  const byPosition = new Map(
+    removable.items.map((item) => [item.position, item])
+  );
+  const entries: string[] = [];
+  for (const positions of rowPositions) {
+    const items = positions.map((position) => byPosition.get(position));
+    if (positions.length > 1 && items.every(Boolean)) {
+      entries.push(
+        `整筆 #${positions[0]}–#${
+          positions[positions.length - 1]
+        }（${formatItemSummary(items as BundleItem[], " + ")}）`
+      );
+      for (const position of positions) byPosition.delete(position);
+    }
+  }
+  for (const item of byPosition.values()) {
+    const name = itemName(item);
+    entries.push(
+      `#${item.position}（${
+        name ? `${name} ` : ""
+      }$${item.amount.toLocaleString()}）`
+    );
+  }
+  return entries;
+}
+
+/** 例: "$250 + $500 ×3" */
+function formatCandidates(candidates: TopUpCandidate[]) {
+  const counts = new Map<number, number>();
+  for (const candidate of candidates) {
+    counts.set(candidate.amount, (counts.get(candidate.amount) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([amount, count]) =>
+      count > 1
+        ? `$${amount.toLocaleString()} ×${count}`
+        : `$${amount.toLocaleString()}`
+    )
+    .join(" + ");
+}
+
+/** しきい値の入力を検証して数値にする。prefix はエラーに付ける店舗名など */
+export function parseGiftTiers(tiers: GiftTier[], prefix = "") {
+  const parsed = tiers.map((tier, index) => {
+    const label = tier.label.trim() || `門檻${index + 1}`;
+    const threshold = Number(tier.threshold);
+    const value = tier.value.trim() === "" ? threshold : Number(tier.value);
+
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      throw new Error(`請正確輸入${prefix}${label}的門檻金額。`);
+    }
+
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`請正確輸入${prefix}${label}的贈品價值。`);
+    }
+
+    const maxGifts =
+      tier.maxGifts.trim() === "" ? undefined : Number(tier.maxGifts);
+    if (
+      maxGifts !== undefined &&
+      (!Number.isInteger(maxGifts) || maxGifts < 0)
+    ) {
+      throw new Error(`請正確輸入${prefix}${label}的上限份數。`);
+    }
+
+    return { label, threshold, value, maxGifts };
+  });
+
+  if (!parsed.length) {
+    throw new Error(`請至少設定一個${prefix}贈品門檻。`);
+  }
+
+  return parsed;
+}
+
+/** 会計ごとの制限の入力を optimizer の constraints に変換する（何も無ければ undefined） */
+function parseCheckoutRules(
+  rules: CheckoutRules
+): GroupConstraints | undefined {
+  const parseCount = (raw: string) => {
+    if (raw.trim() === "") return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error("請正確輸入每次結帳的件數限制。");
+    }
+    return value;
+  };
+
+  const maxItemsPerGroup = parseCount(rules.maxItems);
+  const minItemsPerGroup = parseCount(rules.minItems);
+
+  if (
+    maxItemsPerGroup !== undefined &&
+    minItemsPerGroup !== undefined &&
+    minItemsPerGroup > maxItemsPerGroup
+  ) {
+    throw new Error("每次結帳的最少件數不可大於最多件數。");
+  }
+
+  if (
+    maxItemsPerGroup === undefined &&
+    minItemsPerGroup === undefined &&
+    !rules.keepSkuTogether
+  ) {
+    return undefined;
+  }
+
+  return {
+    maxItemsPerGroup,
+    minItemsPerGroup,
+    keepSkuTogether: rules.keepSkuTogether,
+  };
+}
+
+type GiftCalculatorProps = {
+  /** 共有リンクから読み込んだ条件（開いたらそのまま計算する） */
+  initialScenario?: Scenario | null;
+  /** 共有リンクが壊れていて読み込めなかった */
+  invalidScenario?: boolean;
+};
+
+export function GiftCalculator({
+  initialScenario = null,
+  invalidScenario = false,
+}: GiftCalculatorProps) {
+  const [initial] = useState(() => fromScenario(initialScenario));
+  const [stores, setStores] = useState<Store[]>(initial.stores);
+  const [items, setItems] = useState<PurchaseItem[]>(initial.items);
+  const [objective, setObjective] = useState<TierObjective>(
+    initialScenario?.objective ?? DEFAULT_OBJECTIVE
+  );
+  const [secondaryObjective, setSecondaryObjective] =
+    useState<SecondaryObjective>(
+      initialScenario?.secondaryObjective ?? DEFAULT_SECONDARY_OBJECTIVE
+    );
   const [calculation, setCalculation] =
     useState<TieredCalculationResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  /** calculation を計算したときの入力（encodeScenario の文字列） */
+  const [calculatedScenario, setCalculatedScenario] = useState<string | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(
+    invalidScenario ? "分享連結的內容無法讀取，已改用預設值。" : null
+  );
   const [isCalculating, setIsCalculating] = useState(false);
+  const [timeBudgetMs, setTimeBudgetMs] = useState(
+    initialScenario?.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS
+  );
+  const [strategy, setStrategy] = useState<SearchStrategy>(
+    initialScenario?.strategy ?? DEFAULT_STRATEGY
+  );
+  const [seed, setSeed] = useState(initialScenario?.seed ?? "");
+  const [traceEnabled, setTraceEnabled] = useState(false);
+  const [topUpCatalog, setTopUpCatalog] = useState(
+    initialScenario?.topUpCatalog ?? ""
+  );
+  const [checkoutRules, setCheckoutRules] = useState<CheckoutRules>(
+    initialScenario?.checkoutRules ?? DEFAULT_CHECKOUT_RULES
+  );
+  const [progressGifts, setProgressGifts] = useState<number | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [snapshots, setSnapshots] = useState<ComparisonSnapshot[]>([]);
+  const nextSnapshotId = useRef(1);
+  const runRef = useRef<OptimizerRun | null>(null);
+
+  // 画面を離れたら実行中の Worker も止める
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  // 共有リンクで開いたときは入力済みの条件でそのまま計算する
+  // （最初の表示で1回だけ。入力が変わるたびに計算し直さないよう、依存配列はわざと空にしている）
+  useEffect(() => {
+    if (initialScenario) void handleCalculate();
+  }, []);
 
   const summary = calculation;
 
-  const handleThresholdChange =
-    (setter: (value: string) => void) => (value: string) => {
-      setter(value.replace(/[^0-9.]/g, ""));
-    };
+  const updateStore = (storeIndex: number, update: (store: Store) => Store) => {
+    setStores((prev) => {
+      const next = [...prev];
+      next[storeIndex] = update(next[storeIndex]);
+      return next;
+    });
+  };
+
+  const addStore = () => {
+    setStores((prev) => {
+      const id = `store-${
+        Math.max(0, ...prev.map((store) => Number(store.id.slice(6)) || 0)) + 1
+      }`;
+      return [
+        ...prev,
+        { id, name: `商店${prev.length + 1}`, tiers: DEFAULT_TIERS },
+      ];
+    });
+  };
+
+  const updateStoreName = (storeIndex: number, name: string) => {
+    updateStore(storeIndex, (store) => ({ ...store, name }));
+  };
+
+  const removeStore = (storeIndex: number) => {
+    const removed = stores[storeIndex];
+    const fallback = stores.find((_, idx) => idx !== storeIndex);
+    if (!removed || !fallback) return;
+    setStores((prev) => prev.filter((_, idx) => idx !== storeIndex));
+    // 削除した店舗の商品は残っている最初の店舗へ
+    setItems((prev) =>
+      prev.map((item) =>
+        item.storeId === removed.id ? { ...item, storeId: fallback.id } : item
+      )
+    );
+  };
+
+  const addTier = (storeIndex: number) => {
+    updateStore(storeIndex, (store) => ({
+      ...store,
+      tiers: [
+        ...store.tiers,
+        {
+          label: `贈品${String.fromCharCode(65 + store.tiers.length)}`,
+          threshold: "",
+          value: "",
+          maxGifts: "",
+        },
+      ],
+    }));
+  };
+
+  const updateTier = (
+    storeIndex: number,
+    index: number,
+    field: keyof GiftTier,
+    rawValue: string
+  ) => {
+    const sanitized =
+      field === "label"
+        ? rawValue
+        : rawValue.replace(field === "maxGifts" ? /[^0-9]/g : /[^0-9.]/g, "");
+    updateStore(storeIndex, (store) => {
+      const tiers = [...store.tiers];
+      tiers[index] = {
+        ...tiers[index],
+        [field]: sanitized,
+      };
+      return { ...store, tiers };
+    });
+  };
+
+  const removeTier = (storeIndex: number, index: number) => {
+    updateStore(storeIndex, (store) => ({
+      ...store,
+      tiers: store.tiers.filter((_, idx) => idx !== index),
+    }));
+  };
 
   const addItem = () => {
-    setItems((prev) => [...prev, { price: "", quantity: "" }]);
+    // 直前の行と同じ店舗に追加する
+    setItems((prev) => [
+      ...prev,
+      { ...EMPTY_ITEM, storeId: prev.at(-1)?.storeId ?? stores[0].id },
+    ]);
   };
 
   const updateItem = (
@@ -57,7 +606,11 @@ export function GiftCalculator() {
     field: keyof PurchaseItem,
     rawValue: string
   ) => {
-    const sanitized = rawValue.replace(/[^0-9.]/g, "");
+    // 全角数字（IME の入力）も受け付ける
+    const sanitized =
+      field === "price" || field === "quantity"
+        ? rawValue.normalize("NFKC").replace(/[^0-9.]/g, "")
+        : rawValue;
     setItems((prev) => {
       const next = [...prev];
       next[index] = {
@@ -72,111 +625,416 @@ export function GiftCalculator() {
     setItems((prev) => prev.filter((_, idx) => idx !== index));
   };
 
-  const handleCalculate = () => {
-    setIsCalculating(true);
+  // CSV の行を末尾に足す（金額も数量も空の行は捨てる）。知らない店舗名は店舗を追加する
+  const importItems = (rows: PurchaseCsvRow[]) => {
+    const nextStores = [...stores];
+    const storeIdOf = (name: string) => {
+      if (!name) return items.at(-1)?.storeId ?? stores[0].id;
+      const found = nextStores.find((store) => store.name.trim() === name);
+      if (found) return found.id;
+      const id = `store-${
+        Math.max(
+          0,
+          ...nextStores.map((store) => Number(store.id.slice(6)) || 0)
+        ) + 1
+      }`;
+      nextStores.push({ id, name, tiers: DEFAULT_TIERS });
+      return id;
+    };
+    const imported = rows.map(({ store, ...row }) => ({
+      ...EMPTY_ITEM,
+      ...row,
+      storeId: storeIdOf(store),
+    }));
+    setStores(nextStores);
+    setItems((prev) => [
+      ...prev.filter((item) => item.price || item.quantity),
+      ...imported,
+    ]);
+  };
+
+  const handleCalculate = async () => {
+    // 実行中の計算は置き換える（古い結果は捨てる）
+    const previous = runRef.current;
+    runRef.current = null;
+    previous?.cancel();
     setError(null);
 
+    let run: OptimizerRun | null = null;
+    const scenario = currentScenario();
+
     try {
-      const parsedThresholdA = Number(thresholdA);
-      const parsedThresholdB = Number(thresholdB);
+      const parsedStores = stores.map((store, storeIndex) => {
+        const name = store.name.trim() || `商店${storeIndex + 1}`;
+        // 店舗が複数のときはエラーにどの店舗か入れる
+        const prefix = stores.length > 1 ? `${name}的` : "";
 
-      if (!Number.isFinite(parsedThresholdA) || parsedThresholdA <= 0) {
-        throw new Error("請正確輸入贈品A的門檻金額。");
-      }
+        return {
+          id: store.id,
+          name,
+          tiers: parseGiftTiers(store.tiers, prefix),
+        };
+      });
+
+      const constraints = parseCheckoutRules(checkoutRules);
+      const catalog = parseTopUpCatalog(topUpCatalog);
+
+      const rows = items.map((item) => ({
+        amount: Number(item.price || "0"),
+        quantity: Number(item.quantity || "0"),
+        meta: toItemMeta(item),
+        groupKey: item.groupKey.trim() || undefined,
+        exclusiveKey: item.exclusiveKey.trim() || undefined,
+        storeId: item.storeId,
+      }));
+      const constrained =
+        constraints !== undefined ||
+        rows.some((row) => row.groupKey || row.exclusiveKey);
+      const totalUnits = rows.reduce(
+        (sum, row) =>
+          row.amount > 0 && row.quantity >= 1
+            ? sum + Math.floor(row.quantity)
+            : sum,
+        0
+      );
 
-      if (!Number.isFinite(parsedThresholdB) || parsedThresholdB <= 0) {
-        throw new Error("請正確輸入贈品B的門檻金額。");
+      if (totalUnits > MAX_TOTAL_UNITS) {
+        throw new Error(
+          `最多只能計算合計${MAX_TOTAL_UNITS}件，請調整購買數量。`
+        );
       }
 
-      let positionCounter = 1;
-      const expandedItems = items.flatMap(({ price, quantity }) => {
-        const amountValue = Number(price || "0");
-        const quantityValue = Number(quantity || "0");
-        const sanitizedQuantity = Math.floor(quantityValue);
-
-        if (
-          !Number.isFinite(amountValue) ||
-          amountValue <= 0 ||
-          !Number.isFinite(sanitizedQuantity) ||
-          sanitizedQuantity <= 0
-        ) {
-          return [];
-        }
-
-        return Array.from({ length: sanitizedQuantity }, () => ({
-          amount: amountValue,
-          position: positionCounter++,
-        }));
-      });
+      // 番号（#n）は店舗をまたいで入力順に振る
+      const storeItems = new Map(
+        parsedStores.map((store) => [store.id, [] as BundleItem[]])
+      );
+      const storeRows = new Map(
+        parsedStores.map((store) => [store.id, [] as number[][]])
+      );
+      let nextPosition = 1;
+      for (const { storeId, ...row } of rows) {
+        const expanded = expandByQuantity([row], nextPosition);
+        if (!expanded.length) continue;
+        nextPosition += expanded.length;
+        const target = storeItems.has(storeId) ? storeId : parsedStores[0].id;
+        storeItems.get(target)!.push(...expanded);
+        storeRows.get(target)!.push(expanded.map((item) => item.position));
+      }
 
-      if (!expandedItems.length) {
+      if (nextPosition === 1) {
         throw new Error("請輸入每筆金額與數量。");
       }
 
-      if (expandedItems.length > MAX_ITEMS) {
-        throw new Error(`最多只能計算合計${MAX_ITEMS}件，請調整購買數量。`);
-      }
+      run = runOptimizerInWorker(
+        parsedStores.map((store) => ({
+          items: storeItems.get(store.id)!,
+          tiers: store.tiers,
+        })),
+        {
+          ...EXACT_OPTIONS,
+          objective,
+          secondaryObjective,
+          timeBudgetMs,
+          strategy,
+          seed: seed ? Number(seed) : undefined,
+          trace: traceEnabled,
+          constraints,
+        },
+        (progress) => setProgressGifts(progress.bestGifts)
+      );
+      runRef.current = run;
+      setIsCalculating(true);
+      setProgressGifts(null);
+
+      const result = await run.result;
+      if (runRef.current !== run) return;
 
-      const tierA = optimizeGiftBundles(expandedItems, parsedThresholdA);
-      const tierB = optimizeGiftBundles(tierA.leftover, parsedThresholdB);
+      // グループが壊れていたら（計算の不具合）、間違ったプランを出さずにエラーにする
+      parsedStores.forEach((store, storeIndex) => {
+        const violations = validateOptimizationResult(
+          storeItems.get(store.id)!,
+          result.stores[storeIndex]
+        );
+        if (!violations.length) return;
+        const prefix = parsedStores.length > 1 ? `${store.name}：` : "";
+        throw new Error(
+          `計算結果未通過檢查（${prefix}${describeViolation(violations[0])}${
+            violations.length > 1 ? `等 ${violations.length} 項` : ""
+          }），為避免顯示錯誤的組合，已停止顯示。請調整條件後再試一次。`
+        );
+      });
 
+      setCalculatedScenario(scenario);
       setCalculation({
-        tierA,
-        tierB,
+        stores: parsedStores.map((store, storeIndex) => {
+          const storeResult = result.stores[storeIndex];
+          return {
+            name: store.name,
+            tiers: store.tiers.map((tier, index) => ({
+              ...tier,
+              result: storeResult.tiers[index],
+            })),
+            leftover: storeResult.leftover,
+            constraintIssues: storeResult.constraintIssues ?? [],
+            topUp: constrained
+              ? null
+              : suggestTopUp(storeResult, catalog, store.tiers),
+            removable: findRemovableItems(storeResult, constraints),
+            rowPositions: storeRows.get(store.id)!,
+          };
+        }),
         combined: {
-          totalAmount: tierA.totalAmount,
-          coveredAmount: tierA.coveredAmount + tierB.coveredAmount,
-          totalGifts: tierA.totalGifts + tierB.totalGifts,
+          totalAmount: result.totalAmount,
+          coveredAmount: result.coveredAmount,
+          totalGifts: result.totalGifts,
+          totalValue: result.totalValue,
+          gap: result.gap,
+          timedOut: result.timedOut,
         },
       });
     } catch (err) {
+      if (run && runRef.current !== run) return;
       setCalculation(null);
       const message = err instanceof Error ? err.message : "計算時發生錯誤。";
       setError(message);
     } finally {
-      setIsCalculating(false);
+      if (!run || runRef.current === run) {
+        runRef.current = null;
+        setIsCalculating(false);
+        setProgressGifts(null);
+      }
     }
   };
 
+  const handleCancel = () => {
+    runRef.current?.cancel();
+  };
+
+  const currentScenario = () =>
+    encodeScenario(
+      toScenario({
+        stores,
+        items,
+        objective,
+        secondaryObjective,
+        timeBudgetMs,
+        strategy,
+        seed,
+        checkoutRules,
+        topUpCatalog,
+      })
+    );
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${
+      window.location.pathname
+    }?${SCENARIO_PARAM}=${currentScenario()}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setError("無法複製到剪貼簿，請確認瀏覽器的權限設定。");
+    }
+  };
+
+  // 保存した情境を入力欄に戻す（結果は前回のものなので出さず、計算し直してもらう）
+  const handleLoadSaved = (saved: SavedScenario) => {
+    if (applyScenario(saved.scenario)) setCalculation(null);
+  };
+
+  // encodeScenario の文字列を入力欄に戻す。読めなければ false
+  const applyScenario = (encoded: string) => {
+    const scenario = decodeScenario(encoded);
+    if (!scenario) {
+      setError("這個情境的資料無法讀取。");
+      return false;
+    }
+    runRef.current?.cancel();
+    const restored = fromScenario(scenario);
+    setStores(restored.stores);
+    setItems(restored.items);
+    setObjective(scenario.objective);
+    setSecondaryObjective(scenario.secondaryObjective);
+    setTimeBudgetMs(scenario.timeBudgetMs);
+    setStrategy(scenario.strategy);
+    setSeed(scenario.seed);
+    setCheckoutRules(scenario.checkoutRules);
+    setTopUpCatalog(scenario.topUpCatalog);
+    setError(null);
+    return true;
+  };
+
+  const addSnapshot = () => {
+    if (!calculation) return;
+    const id = nextSnapshotId.current++;
+    setSnapshots((prev) =>
+      prev.length >= MAX_SNAPSHOTS
+        ? prev
+        : [
+            ...prev,
+            {
+              id,
+              label: `方案 ${id}`,
+              scenario: currentScenario(),
+              result: calculation,
+            },
+          ]
+    );
+  };
+
+  // 比較中のプランの条件と結果を戻す（条件が同じなので計算し直さない）
+  const restoreSnapshot = (snapshot: ComparisonSnapshot) => {
+    if (!applyScenario(snapshot.scenario)) return;
+    setCalculatedScenario(snapshot.scenario);
+    setCalculation(snapshot.result);
+  };
+
   const handleReset = () => {
-    setThresholdA(DEFAULT_THRESHOLD_A);
-    setThresholdB(DEFAULT_THRESHOLD_B);
+    setStores(DEFAULT_STORES);
     setItems(DEFAULT_ITEMS);
+    setObjective(DEFAULT_OBJECTIVE);
+    setSecondaryObjective(DEFAULT_SECONDARY_OBJECTIVE);
+    setCheckoutRules(DEFAULT_CHECKOUT_RULES);
+    setTimeBudgetMs(DEFAULT_TIME_BUDGET_MS);
+    setStrategy(DEFAULT_STRATEGY);
+    setSeed("");
+    setTraceEnabled(false);
+    setTopUpCatalog("");
     setCalculation(null);
     setError(null);
   };
 
   return (
     <div className="mt-8 grid gap-8 md:grid-cols-[1.2fr_1fr]">
+      <div className="md:col-span-2">
+        <ScenarioPicker
+          getScenario={currentScenario}
+          lastResult={
+            calculation && calculatedScenario !== null
+              ? { scenario: calculatedScenario, result: calculation.combined }
+              : null
+          }
+          onLoad={handleLoadSaved}
+          disabled={isCalculating}
+        />
+      </div>
       <GiftParameters
-        thresholdA={thresholdA}
-        thresholdB={thresholdB}
+        stores={stores}
         items={items}
-        onChangeThresholdA={handleThresholdChange(setThresholdA)}
-        onChangeThresholdB={handleThresholdChange(setThresholdB)}
+        onAddStore={addStore}
+        onUpdateStoreName={updateStoreName}
+        onRemoveStore={removeStore}
+        onAddTier={addTier}
+        onUpdateTier={updateTier}
+        onRemoveTier={removeTier}
+        objective={objective}
+        onChangeObjective={setObjective}
+        secondaryObjective={secondaryObjective}
+        onChangeSecondaryObjective={setSecondaryObjective}
         onAddItem={addItem}
         onUpdateItem={updateItem}
         onRemoveItem={removeItem}
+        onImportItems={importItems}
+        checkoutRules={checkoutRules}
+        onChangeCheckoutRules={setCheckoutRules}
+        topUpCatalog={topUpCatalog}
+        onChangeTopUpCatalog={setTopUpCatalog}
+        timeBudgetMs={timeBudgetMs}
+        onChangeTimeBudget={setTimeBudgetMs}
+        strategy={strategy}
+        onChangeStrategy={setStrategy}
+        seed={seed}
+        onChangeSeed={setSeed}
+        traceEnabled={traceEnabled}
+        onChangeTraceEnabled={setTraceEnabled}
         onCalculate={handleCalculate}
+        onCancel={handleCancel}
         onReset={handleReset}
+        onCopyLink={handleCopyLink}
+        linkCopied={linkCopied}
         isCalculating={isCalculating}
+        progressGifts={progressGifts}
       />
-      <ResultsPanel
-        summary={summary}
-        error={error}
-        thresholdA={thresholdA}
-        thresholdB={thresholdB}
-      />
+      <ResultsPanel summary={summary} error={error} />
+      <div className="md:col-span-2">
+        <ScenarioComparison
+          snapshots={snapshots}
+          canAdd={calculation !== null && snapshots.length < MAX_SNAPSHOTS}
+          onAdd={addSnapshot}
+          onRemove={(id) =>
+            setSnapshots((prev) =>
+              prev.filter((snapshot) => snapshot.id !== id)
+            )
+          }
+          onRestore={restoreSnapshot}
+          disabled={isCalculating}
+        />
+      </div>
     </div>
   );
 }
 
+/** 共有リンクの条件を入力欄の状態に戻す（店舗 id は振り直す） */
+function fromScenario(scenario: Scenario | null): {
+  stores: Store[];
+  items: PurchaseItem[];
+} {
+  if (!scenario) return { stores: DEFAULT_STORES, items: DEFAULT_ITEMS };
+  const stores = scenario.stores.map((store, index) => ({
+    id: `store-${index + 1}`,
+    name: store.name,
+    tiers: store.tiers,
+  }));
+  const items = scenario.items.map(({ store, ...item }) => ({
+    ...item,
+    storeId: stores[store]?.id ?? stores[0].id,
+  }));
+  return { stores, items: items.length ? items : DEFAULT_ITEMS };
+}
+
+function toScenario(state: {
+  stores: Store[];
+  items: PurchaseItem[];
+  objective: TierObjective;
+  secondaryObjective: SecondaryObjective;
+  timeBudgetMs: number;
+  strategy: SearchStrategy;
+  seed: string;
+  checkoutRules: CheckoutRules;
+  topUpCatalog: string;
+}): Scenario {
+  return {
+    ...state,
+    stores: state.stores.map(({ name, tiers }) => ({ name, tiers })),
+    items: state.items.map(({ storeId, ...item }) => ({
+      ...item,
+      store: Math.max(
+        0,
+        state.stores.findIndex((store) => store.id === storeId)
+      ),
+    })),
+  };
+}
+
 type GiftParametersProps = {
-  thresholdA: string;
-  thresholdB: string;
+  stores: Store[];
   items: PurchaseItem[];
-  onChangeThresholdA: (value: string) => void;
-  onChangeThresholdB: (value: string) => void;
+  onAddStore: () => void;
+  onUpdateStoreName: (storeIndex: number, name: string) => void;
+  onRemoveStore: (storeIndex: number) => void;
+  onAddTier: (storeIndex: number) => void;
+  onUpdateTier: (
+    storeIndex: number,
+    index: number,
+    field: keyof GiftTier,
+    value: string
+  ) => void;
+  onRemoveTier: (storeIndex: number, index: number) => void;
+  objective: TierObjective;
+  onChangeObjective: (value: TierObjective) => void;
+  secondaryObjective: SecondaryObjective;
+  onChangeSecondaryObjective: (value: SecondaryObjective) => void;
   onAddItem: () => void;
   onUpdateItem: (
     index: number,
@@ -184,23 +1042,67 @@ type GiftParametersProps = {
     value: string
   ) => void;
   onRemoveItem: (index: number) => void;
+  onImportItems: (rows: PurchaseCsvRow[]) => void;
+  checkoutRules: CheckoutRules;
+  onChangeCheckoutRules: (value: CheckoutRules) => void;
+  topUpCatalog: string;
+  onChangeTopUpCatalog: (value: string) => void;
+  timeBudgetMs: number;
+  onChangeTimeBudget: (value: number) => void;
+  strategy: SearchStrategy;
+  onChangeStrategy: (value: SearchStrategy) => void;
+  /** 数字だけの文字列（空なら既定の種） */
+  seed: string;
+  onChangeSeed: (value: string) => void;
+  traceEnabled: boolean;
+  onChangeTraceEnabled: (value: boolean) => void;
   onCalculate: () => void;
+  onCancel: () => void;
   onReset: () => void;
+  onCopyLink: () => void;
+  /** 直前にリンクをコピーした（ボタンの表示を一時的に変える） */
+  linkCopied: boolean;
   isCalculating: boolean;
+  /** 計算中に見つかっている最良の景品数（まだ無ければ null） */
+  progressGifts: number | null;
 };
 
 function GiftParameters({
-  thresholdA,
-  thresholdB,
+  stores,
   items,
-  onChangeThresholdA,
-  onChangeThresholdB,
+  onAddStore,
+  onUpdateStoreName,
+  onRemoveStore,
+  onAddTier,
+  onUpdateTier,
+  onRemoveTier,
+  objective,
+  onChangeObjective,
+  secondaryObjective,
+  onChangeSecondaryObjective,
   onAddItem,
   onUpdateItem,
   onRemoveItem,
+  onImportItems,
+  checkoutRules,
+  onChangeCheckoutRules,
+  topUpCatalog,
+  onChangeTopUpCatalog,
+  timeBudgetMs,
+  onChangeTimeBudget,
+  strategy,
+  onChangeStrategy,
+  seed,
+  onChangeSeed,
+  traceEnabled,
+  onChangeTraceEnabled,
   onCalculate,
+  onCancel,
   onReset,
+  onCopyLink,
+  linkCopied,
   isCalculating,
+  progressGifts,
 }: GiftParametersProps) {
   const hasInvalidQuantity = items.some((item) => {
     const quantityValue = Number(item.quantity);
@@ -217,58 +1119,97 @@ function GiftParameters({
       <Field>
         <FieldLabel>贈品門檻金額</FieldLabel>
         <FieldContent className="space-y-4">
-          <div className="grid gap-3 md:grid-cols-2">
-            <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-4">
-              <p className="text-xs font-semibold uppercase tracking-wide text-white/70">
-                贈品A
-              </p>
-              <Input
-                inputMode="numeric"
-                value={thresholdA}
-                onChange={(event) =>
-                  onChangeThresholdA(event.currentTarget.value)
+          <StoreList
+            stores={stores}
+            onUpdateStoreName={onUpdateStoreName}
+            onRemoveStore={onRemoveStore}
+            onAddTier={onAddTier}
+            onUpdateTier={onUpdateTier}
+            onRemoveTier={onRemoveTier}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            className="w-full border border-white/10 bg-white/10 text-white hover:bg-white/20"
+            onClick={onAddStore}
+          >
+            + 新增商店
+          </Button>
+          <div className="grid grid-cols-3 gap-2">
+            {OBJECTIVE_CHOICES.map((choice) => (
+              <Button
+                key={choice.value}
+                type="button"
+                variant="secondary"
+                aria-pressed={objective === choice.value}
+                onClick={() => onChangeObjective(choice.value)}
+                className={
+                  objective === choice.value
+                    ? "border border-emerald-300/60 bg-emerald-500/20 text-white hover:bg-emerald-500/30"
+                    : "border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
                 }
-                placeholder="例如：2000"
-                aria-label="贈品A的門檻金額"
-                disabled
-              />
-            </div>
-            <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-4">
-              <p className="text-xs font-semibold uppercase tracking-wide text-white/70">
-                贈品B
-              </p>
-              <Input
-                inputMode="numeric"
-                value={thresholdB}
-                onChange={(event) =>
-                  onChangeThresholdB(event.currentTarget.value)
+              >
+                {choice.label}
+              </Button>
+            ))}
+          </div>
+          <FieldDescription>
+            同時分配各門檻的組合：「高門檻優先」會由高門檻開始依序取最多份數，
+            「贈品總數優先」以合計份數最多為目標，「贈品價值優先」則以各贈品價值×份數的合計最大為目標。
+            不同商店的結帳分開計算，各自套用自己的門檻。
+            設定上限份數（限量、每人限領）時，超過的金額會改用於較低的門檻。
+          </FieldDescription>
+          <div className="grid grid-cols-3 gap-2">
+            {SECONDARY_OBJECTIVE_CHOICES.map((choice) => (
+              <Button
+                key={choice.value}
+                type="button"
+                variant="secondary"
+                aria-pressed={secondaryObjective === choice.value}
+                onClick={() => onChangeSecondaryObjective(choice.value)}
+                className={
+                  secondaryObjective === choice.value
+                    ? "border border-emerald-300/60 bg-emerald-500/20 text-white hover:bg-emerald-500/30"
+                    : "border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
                 }
-                placeholder="例如：1000"
-                aria-label="贈品B的門檻金額"
-                disabled
-              />
-            </div>
+              >
+                {choice.label}
+              </Button>
+            ))}
           </div>
           <FieldDescription>
-            會先盡量湊足高門檻的贈品A，再用剩餘金額爭取贈品B。
+            贈品份數相同時的取捨：「超出金額最少」讓每次結帳盡量貼近門檻，
+            「保留金額最多」把用不到的商品留下（可另外購買或留到下次），
+            「結帳次數最少」則把剩餘商品併入既有的結帳，不再另外結帳。
           </FieldDescription>
         </FieldContent>
       </Field>
 
-      <Button
-        type="button"
-        variant="secondary"
-        onClick={onReset}
-        disabled={isCalculating}
-        className="w-full border border-white/20 bg-transparent text-white hover:bg-white/10"
-      >
-        重設
-      </Button>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={onReset}
+          disabled={isCalculating}
+          className="border border-white/20 bg-transparent text-white hover:bg-white/10"
+        >
+          重設
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={onCopyLink}
+          className="border border-white/20 bg-transparent text-white hover:bg-white/10"
+        >
+          {linkCopied ? "已複製連結" : "複製分享連結"}
+        </Button>
+      </div>
 
       <Field>
         <FieldLabel>購買金額 × 數量</FieldLabel>
         <FieldContent className="space-y-3">
           <PurchaseItemList
+            stores={stores}
             items={items}
             onUpdateItem={onUpdateItem}
             onRemoveItem={onRemoveItem}
@@ -281,67 +1222,430 @@ function GiftParameters({
           >
             + 新增商品
           </Button>
+          <PurchaseCsvImport
+            onImport={onImportItems}
+            disabled={isCalculating}
+          />
+          <OrderTextPaste
+            disabled={isCalculating}
+            onApply={(lines) =>
+              onImportItems(
+                lines.map((line) => ({
+                  price: String(line.price),
+                  quantity: String(line.quantity),
+                  name: line.name,
+                  sku: "",
+                  note: "",
+                  store: "",
+                }))
+              )
+            }
+          />
+          <FieldDescription>
+            請確保所有購買數量加總不超過 {MAX_TOTAL_UNITS.toLocaleString()}
+            件，亦可重複輸入相同商品。大量訂購時會以相同金額的組合方式一併計算。
+          </FieldDescription>
+          <FieldDescription>
+            CSV 的欄位依序為 金額, 數量, 品名, 商店（品名與商店可省略）；
+            第一行若是欄位名稱（金額／數量／品名／SKU／備註／商店）則依名稱對應。
+          </FieldDescription>
+        </FieldContent>
+      </Field>
+
+      <CheckoutRuleFields
+        rules={checkoutRules}
+        onChange={onChangeCheckoutRules}
+      />
+
+      <Field>
+        <FieldLabel>加購候選價格</FieldLabel>
+        <FieldContent className="space-y-2">
+          <Input
+            className="border-white/10 bg-transparent"
+            value={topUpCatalog}
+            aria-label="加購候選價格"
+            placeholder="例如 99, 150, 390（選填）"
+            onChange={(event) =>
+              onChangeTopUpCatalog(event.currentTarget.value)
+            }
+          />
           <FieldDescription>
-            請確保所有購買數量加總不超過 {MAX_ITEMS}
-            件，亦可重複輸入相同商品。
+            計算後會建議「再買多少就能多拿 1 份贈品」。填入可加購的商品價格時，
+            會從中挑出最便宜的組合（同一價格可重複購買）。
           </FieldDescription>
         </FieldContent>
       </Field>
 
       <div className="flex flex-col gap-3">
-        <Button
-          type="button"
-          onClick={onCalculate}
-          disabled={isCalculating || hasInvalidQuantity}
-          className="w-full bg-emerald-500 text-white hover:bg-emerald-600 focus-visible:bg-emerald-600"
-        >
-          {isCalculating ? "計算中..." : "開始計算"}
-        </Button>
-        <p className="text-xs text-white/70">輸入完成後請按「開始計算」。</p>
+        <div className="flex items-center gap-2 text-xs text-white/70">
+          <span>計算時間上限</span>
+          {TIME_BUDGET_CHOICES.map((ms) => (
+            <Button
+              key={ms}
+              type="button"
+              variant="ghost"
+              size="sm"
+              aria-pressed={timeBudgetMs === ms}
+              disabled={isCalculating}
+              onClick={() => onChangeTimeBudget(ms)}
+              className={
+                timeBudgetMs === ms
+                  ? "bg-white/15 text-white hover:bg-white/20"
+                  : "text-white/60 hover:text-white"
+              }
+            >
+              {ms / 1000}秒
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-white/70">
+          <span>搜尋方式</span>
+          {STRATEGY_CHOICES.map((choice) => (
+            <Button
+              key={choice.value}
+              type="button"
+              variant="ghost"
+              size="sm"
+              aria-pressed={strategy === choice.value}
+              disabled={isCalculating}
+              onClick={() => onChangeStrategy(choice.value)}
+              className={
+                strategy === choice.value
+                  ? "bg-white/15 text-white hover:bg-white/20"
+                  : "text-white/60 hover:text-white"
+              }
+            >
+              {choice.label}
+            </Button>
+          ))}
+          {strategy !== "greedy" ? (
+            <Input
+              className="h-8 w-28 border-white/10 bg-transparent text-xs"
+              value={seed}
+              aria-label="亂數種子"
+              inputMode="numeric"
+              placeholder="亂數種子（1）"
+              disabled={isCalculating}
+              onChange={(event) =>
+                onChangeSeed(
+                  event.currentTarget.value.replace(/[^0-9]/g, "").slice(0, 9)
+                )
+              }
+            />
+          ) : null}
+        </div>
+        {strategy !== "greedy" ? (
+          <p className="text-xs text-white/50">
+            多花一些計算時間找更好的組合。相同的種子與條件（含計算時間設定）會得到相同的結果，
+            但若計算時間用完而提前結束則不一定。
+          </p>
+        ) : null}
+        <label className="flex items-center gap-2 text-xs text-white/70">
+          <input
+            type="checkbox"
+            className="size-4 accent-emerald-400"
+            checked={traceEnabled}
+            disabled={isCalculating}
+            onChange={(event) =>
+              onChangeTraceEnabled(event.currentTarget.checked)
+            }
+          />
+          記錄計算過程（在結果下方顯示每一步的調整）
+        </label>
+        {isCalculating ? (
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              disabled
+              className="flex-1 bg-emerald-500 text-white"
+            >
+              計算中...
+              {progressGifts !== null ? `（目前最佳 ${progressGifts} 份）` : ""}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={onCancel}
+              className="border border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              取消
+            </Button>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            onClick={onCalculate}
+            disabled={hasInvalidQuantity}
+            className="w-full bg-emerald-500 text-white hover:bg-emerald-600 focus-visible:bg-emerald-600"
+          >
+            開始計算
+          </Button>
+        )}
+        <p className="text-xs text-white/70">
+          輸入完成後請按「開始計算」。計算會在背景進行，可隨時取消。
+        </p>
       </div>
     </FieldSet>
   );
 }
 
-type PurchaseItemListProps = Pick<
+type StoreListProps = Pick<
   GiftParametersProps,
-  "items" | "onUpdateItem" | "onRemoveItem"
+  | "stores"
+  | "onUpdateStoreName"
+  | "onRemoveStore"
+  | "onAddTier"
+  | "onUpdateTier"
+  | "onRemoveTier"
 >;
 
-function PurchaseItemList({
-  items,
-  onUpdateItem,
-  onRemoveItem,
-}: PurchaseItemListProps) {
+function StoreList({
+  stores,
+  onUpdateStoreName,
+  onRemoveStore,
+  onAddTier,
+  onUpdateTier,
+  onRemoveTier,
+}: StoreListProps) {
+  return (
+    <div className="space-y-4">
+      {stores.map((store, storeIndex) => (
+        <div
+          key={store.id}
+          className="space-y-2 rounded-2xl border border-white/10 p-3"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              className="border-white/10 bg-transparent font-semibold text-white"
+              value={store.name}
+              aria-label={`商店名稱 ${storeIndex + 1}`}
+              placeholder="商店名稱"
+              onChange={(event) =>
+                onUpdateStoreName(storeIndex, event.currentTarget.value)
+              }
+            />
+            {stores.length > 1 ? (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-xs text-white/70 hover:text-white"
+                onClick={() => onRemoveStore(storeIndex)}
+              >
+                刪除商店
+              </Button>
+            ) : null}
+          </div>
+          <GiftTierList
+            tiers={store.tiers}
+            onUpdateTier={(index, field, value) =>
+              onUpdateTier(storeIndex, index, field, value)
+            }
+            onRemoveTier={(index) => onRemoveTier(storeIndex, index)}
+          />
+          {store.tiers.length < MAX_TIERS ? (
+            <Button
+              type="button"
+              variant="secondary"
+              className="w-full border border-white/10 bg-white/10 text-white hover:bg-white/20"
+              onClick={() => onAddTier(storeIndex)}
+            >
+              + 新增贈品門檻
+            </Button>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type GiftTierListProps = {
+  tiers: GiftTier[];
+  onUpdateTier: (index: number, field: keyof GiftTier, value: string) => void;
+  onRemoveTier: (index: number) => void;
+};
+
+export function GiftTierList({
+  tiers,
+  onUpdateTier,
+  onRemoveTier,
+}: GiftTierListProps) {
   return (
     <div className="space-y-2">
-      {items.map((item, index) => (
+      {tiers.map((tier, index) => (
         <div
           key={index}
-          className="flex flex-col gap-3 rounded-lg border border-white/10 bg-white/5 p-3 md:flex-row md:items-center"
+          className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-4 md:flex-row md:items-center"
         >
           <div className="flex flex-1 flex-col gap-2 md:flex-row">
+            <Input
+              className={`border-white/10 bg-transparent font-semibold md:w-28 ${
+                tierAccent(index).text
+              }`}
+              value={tier.label}
+              aria-label={`贈品名稱 ${index + 1}`}
+              placeholder="名稱"
+              onChange={(event) =>
+                onUpdateTier(index, "label", event.currentTarget.value)
+              }
+            />
             <Input
               className="border-white/10 bg-transparent"
-              value={item.price}
-              aria-label={`購買金額 ${index + 1}`}
+              value={tier.threshold}
+              aria-label={`${tier.label}的門檻金額`}
               inputMode="numeric"
-              placeholder="金額（例如：1400）"
+              placeholder="門檻（例如：2000）"
               onChange={(event) =>
-                onUpdateItem(index, "price", event.currentTarget.value)
+                onUpdateTier(index, "threshold", event.currentTarget.value)
               }
             />
             <Input
-              className="border-white/10 bg-transparent md:w-28"
-              value={item.quantity}
-              aria-label={`購買數量 ${index + 1}`}
+              className="border-white/10 bg-transparent md:w-32"
+              value={tier.value}
+              aria-label={`${tier.label}的贈品價值`}
               inputMode="numeric"
-              placeholder="數量"
+              placeholder="價值（選填）"
               onChange={(event) =>
-                onUpdateItem(index, "quantity", event.currentTarget.value)
+                onUpdateTier(index, "value", event.currentTarget.value)
+              }
+            />
+            <Input
+              className="border-white/10 bg-transparent md:w-32"
+              value={tier.maxGifts}
+              aria-label={`${tier.label}的上限份數`}
+              inputMode="numeric"
+              placeholder="上限份數（選填）"
+              onChange={(event) =>
+                onUpdateTier(index, "maxGifts", event.currentTarget.value)
               }
             />
           </div>
+          {tiers.length > 1 ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-xs text-white/70 hover:text-white"
+              onClick={() => onRemoveTier(index)}
+            >
+              刪除
+            </Button>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type PurchaseItemListProps = Pick<
+  GiftParametersProps,
+  "stores" | "items" | "onUpdateItem" | "onRemoveItem"
+>;
+
+function PurchaseItemList({
+  stores,
+  items,
+  onUpdateItem,
+  onRemoveItem,
+}: PurchaseItemListProps) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className="flex flex-col gap-3 rounded-lg border border-white/10 bg-white/5 p-3 md:flex-row md:items-center"
+        >
+          <div className="flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-2 md:flex-row">
+              {stores.length > 1 ? (
+                <select
+                  className="h-9 rounded-md border border-white/10 bg-transparent px-3 text-sm text-white md:w-36"
+                  value={item.storeId}
+                  aria-label={`購買商店 ${index + 1}`}
+                  onChange={(event) =>
+                    onUpdateItem(index, "storeId", event.currentTarget.value)
+                  }
+                >
+                  {stores.map((store, storeIndex) => (
+                    <option
+                      key={store.id}
+                      value={store.id}
+                      className="bg-slate-900"
+                    >
+                      {store.name.trim() || `商店${storeIndex + 1}`}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <Input
+                className="border-white/10 bg-transparent"
+                value={item.price}
+                aria-label={`購買金額 ${index + 1}`}
+                inputMode="numeric"
+                placeholder="金額（例如：1400）"
+                onChange={(event) =>
+                  onUpdateItem(index, "price", event.currentTarget.value)
+                }
+              />
+              <Input
+                className="border-white/10 bg-transparent md:w-28"
+                value={item.quantity}
+                aria-label={`購買數量 ${index + 1}`}
+                inputMode="numeric"
+                placeholder="數量"
+                onChange={(event) =>
+                  onUpdateItem(index, "quantity", event.currentTarget.value)
+                }
+              />
+            </div>
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Input
+                className="border-white/10 bg-transparent"
+                value={item.name}
+                aria-label={`品名 ${index + 1}`}
+                placeholder="品名（選填）"
+                onChange={(event) =>
+                  onUpdateItem(index, "name", event.currentTarget.value)
+                }
+              />
+              <Input
+                className="border-white/10 bg-transparent md:w-28"
+                value={item.sku}
+                aria-label={`SKU ${index + 1}`}
+                placeholder="SKU（選填）"
+                onChange={(event) =>
+                  onUpdateItem(index, "sku", event.currentTarget.value)
+                }
+              />
+              <Input
+                className="border-white/10 bg-transparent"
+                value={item.note}
+                aria-label={`備註 ${index + 1}`}
+                placeholder="備註（選填）"
+                onChange={(event) =>
+                  onUpdateItem(index, "note", event.currentTarget.value)
+                }
+              />
+            </div>
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Input
+                className="border-white/10 bg-transparent"
+                value={item.groupKey}
+                aria-label={`同組代碼 ${index + 1}`}
+                placeholder="同組代碼（相同代碼須一起結帳，選填）"
+                onChange={(event) =>
+                  onUpdateItem(index, "groupKey", event.currentTarget.value)
+                }
+              />
+              <Input
+                className="border-white/10 bg-transparent"
+                value={item.exclusiveKey}
+                aria-label={`分開結帳代碼 ${index + 1}`}
+                placeholder="分開結帳代碼（如賣家／倉庫，選填）"
+                onChange={(event) =>
+                  onUpdateItem(index, "exclusiveKey", event.currentTarget.value)
+                }
+              />
+            </div>
+          </div>
           {items.length > 1 ? (
             <Button
               type="button"
@@ -358,19 +1662,74 @@ function PurchaseItemList({
   );
 }
 
+function CheckoutRuleFields({
+  rules,
+  onChange,
+}: {
+  rules: CheckoutRules;
+  onChange: (value: CheckoutRules) => void;
+}) {
+  const updateCount = (field: "maxItems" | "minItems", rawValue: string) =>
+    onChange({ ...rules, [field]: rawValue.replace(/[^0-9]/g, "") });
+
+  return (
+    <Field>
+      <FieldLabel>結帳限制</FieldLabel>
+      <FieldContent className="space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row">
+          <Input
+            className="border-white/10 bg-transparent"
+            value={rules.maxItems}
+            aria-label="每次結帳最多件數"
+            inputMode="numeric"
+            placeholder="每次結帳最多件數（選填）"
+            onChange={(event) =>
+              updateCount("maxItems", event.currentTarget.value)
+            }
+          />
+          <Input
+            className="border-white/10 bg-transparent"
+            value={rules.minItems}
+            aria-label="每次結帳最少件數"
+            inputMode="numeric"
+            placeholder="每次結帳最少件數（選填）"
+            onChange={(event) =>
+              updateCount("minItems", event.currentTarget.value)
+            }
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          <input
+            type="checkbox"
+            className="size-4 accent-emerald-400"
+            checked={rules.keepSkuTogether}
+            onChange={(event) =>
+              onChange({
+                ...rules,
+                keepSkuTogether: event.currentTarget.checked,
+              })
+            }
+          />
+          相同 SKU 的商品不拆開結帳
+        </label>
+        <FieldDescription>
+          店家限制單次結帳件數，或同一 SKU
+          須在同一張發票結帳時使用。勾選後，相同 SKU
+          的所有數量會放在同一個組合（或全部不使用）。
+        </FieldDescription>
+      </FieldContent>
+    </Field>
+  );
+}
+
 type ResultsPanelProps = {
   summary: TieredCalculationResult | null;
   error: string | null;
-  thresholdA: string;
-  thresholdB: string;
 };
 
-function ResultsPanel({
-  summary,
-  error,
-  thresholdA,
-  thresholdB,
-}: ResultsPanelProps) {
+export function ResultsPanel({ summary, error }: ResultsPanelProps) {
+  const [sheetError, setSheetError] = useState<string | null>(null);
+
   return (
     <div className="rounded-2xl border border-white/10 bg-black/40 p-6 shadow-inner shadow-black/30">
       <h2 className="text-xl font-semibold text-white">計算結果</h2>
@@ -378,33 +1737,53 @@ function ResultsPanel({
         <p className="mt-4 text-sm text-red-300">{error}</p>
       ) : summary ? (
         <div className="mt-4 space-y-6">
-          <SummaryTotals
-            summary={summary}
-            thresholdA={thresholdA}
-            thresholdB={thresholdB}
-          />
-          <ResultStats
-            summary={summary}
-            thresholdA={thresholdA}
-            thresholdB={thresholdB}
-          />
-          <GiftCombinationList
-            summary={summary}
-            thresholdA={thresholdA}
-            thresholdB={thresholdB}
-          />
-          {summary.tierB.leftover.length ? (
-            <div>
-              <p className="text-sm font-semibold text-white/80">未使用</p>
-              <p className="text-xs text-white/70">
-                {summary.tierB.leftover
-                  .map(
-                    (item) =>
-                      `#${item.position}: $${item.amount.toLocaleString()}`
-                  )
-                  .join(", ")}
-              </p>
-            </div>
+          <SummaryTotals summary={summary} />
+          <ResultStats summary={summary} />
+          <GiftCombinationList summary={summary} />
+          <ConstraintIssueList summary={summary} />
+          <TopUpSuggestionCard summary={summary} />
+          <RemovableItemsCard summary={summary} />
+          {summary.stores.map((store, storeIndex) =>
+            store.leftover.length ? (
+              <div key={storeIndex}>
+                <p className="text-sm font-semibold text-white/80">
+                  未使用
+                  {summary.stores.length > 1 ? `（${store.name}）` : null}
+                </p>
+                <p className="text-xs text-white/70">
+                  {store.leftover.length > COLLAPSE_GROUPS_OVER
+                    ? formatItemSummary(store.leftover, ", ")
+                    : store.leftover.map(formatItemDetail).join(", ")}
+                </p>
+              </div>
+            ) : null
+          )}
+          <SolverTraceTimeline summary={summary} />
+          <div className="grid grid-cols-2 gap-2">
+            <Link
+              to="/checkout-sheet"
+              target="_blank"
+              onClick={(event) => {
+                if (storeCheckoutSheet(summary)) {
+                  setSheetError(null);
+                  return;
+                }
+                event.preventDefault();
+                setSheetError(
+                  "瀏覽器無法暫存結果（可能是儲存空間不足或使用私密瀏覽），無法開啟結帳單。請改用「匯出 CSV」。"
+                );
+              }}
+              className="inline-flex items-center justify-center rounded-md border border-white/10 bg-white/10 px-4 py-2 text-sm font-medium text-white hover:bg-white/20"
+            >
+              開啟結帳單（可列印）
+            </Link>
+            <ResultCsvExport
+              stores={summary.stores}
+              totals={summary.combined}
+            />
+          </div>
+          {sheetError ? (
+            <p className="text-sm text-red-300">{sheetError}</p>
           ) : null}
         </div>
       ) : (
@@ -416,15 +1795,108 @@ function ResultsPanel({
   );
 }
 
-function SummaryTotals({
+function ConstraintIssueList({
+  summary,
+}: {
+  summary: TieredCalculationResult;
+}) {
+  const issues = summary.stores.flatMap((store) =>
+    store.constraintIssues.map((issue) =>
+      summary.stores.length > 1
+        ? `${store.name}：${describeConstraintIssue(issue)}`
+        : describeConstraintIssue(issue)
+    )
+  );
+  if (!issues.length) return null;
+
+  return (
+    <div className="rounded-xl border border-amber-300/30 bg-amber-500/10 p-4">
+      <p className="text-sm font-semibold text-amber-200">限制條件造成的影響</p>
+      <ul className="mt-1 list-disc space-y-1 pl-4 text-xs text-amber-100/80">
+        {issues.map((issue, index) => (
+          <li key={index}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function TopUpSuggestionCard({
   summary,
-  thresholdA,
-  thresholdB,
 }: {
   summary: TieredCalculationResult;
-  thresholdA: string;
-  thresholdB: string;
 }) {
+  const suggestions = summary.stores.flatMap((store) =>
+    store.topUp ? [{ store, topUp: store.topUp }] : []
+  );
+  if (!suggestions.length) return null;
+
+  return (
+    <div className="space-y-2 rounded-xl border border-emerald-300/30 bg-emerald-500/10 p-4">
+      <p className="text-sm font-semibold text-emerald-200">加購建議</p>
+      {suggestions.map(({ store, topUp }, index) => {
+        const label = store.tiers[topUp.tierIndex]?.label ?? "贈品";
+        const prefix = summary.stores.length > 1 ? `${store.name}：` : "";
+        return (
+          <div key={index} className="space-y-1 text-xs text-emerald-100/80">
+            <p className="text-sm text-white">
+              {prefix}
+              {topUp.topUp > 0
+                ? `再買 $${topUp.topUp.toLocaleString()} 就能多拿 1 份${label}`
+                : `不需加購，重新組合就能多拿 1 份${label}`}
+              （合計 {topUp.totalGifts} 份）
+            </p>
+            {topUp.candidates.length ? (
+              <p>建議加購：{formatCandidates(topUp.candidates)}</p>
+            ) : null}
+            {topUp.items.length ? (
+              <p>
+                與 {formatPositions(topUp.items.map((item) => item.position))}{" "}
+                一起結帳（門檻 ${topUp.threshold.toLocaleString()}）
+                {topUp.borrowed.length
+                  ? `；其中 ${formatPositions(
+                      topUp.borrowed.map((item) => item.position)
+                    )} 從原本的組合拿出，原組合仍達門檻`
+                  : null}
+              </p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const REMOVABLE_SHOWN = 8;
+
+function RemovableItemsCard({ summary }: { summary: TieredCalculationResult }) {
+  const stores = summary.stores.filter(
+    (store) => store.removable.items.length && store.removable.totalGifts
+  );
+  if (!stores.length) return null;
+
+  return (
+    <div className="space-y-2 rounded-xl border border-sky-300/30 bg-sky-500/10 p-4">
+      <p className="text-sm font-semibold text-sky-200">可以少買的商品</p>
+      {stores.map((store, index) => {
+        const entries = describeRemovable(store.removable, store.rowPositions);
+        const shown = entries.slice(0, REMOVABLE_SHOWN).join("、");
+        return (
+          <p key={index} className="text-xs text-sky-100/80">
+            {summary.stores.length > 1 ? `${store.name}：` : null}
+            可以不買 {shown}
+            {entries.length > REMOVABLE_SHOWN ? `…等${entries.length}項` : null}
+            ，仍可獲得 {store.removable.totalGifts}{" "}
+            份贈品（在目前的結帳組合下最多可省下 $
+            {store.removable.savings.toLocaleString()}，重新組合可能省更多）
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+function SummaryTotals({ summary }: { summary: TieredCalculationResult }) {
   return (
     <div className="space-y-4">
       <div>
@@ -434,51 +1906,62 @@ function SummaryTotals({
         </p>
       </div>
 
-      <div className="grid gap-3 md:grid-cols-2">
-        {[
-          {
-            label: "贈品A",
-            value: summary.tierA.totalGifts,
-            accent: "from-amber-300/60 to-amber-500/50 text-amber-100",
-            thresholdValue: Number(thresholdA),
-          },
-          {
-            label: "贈品B",
-            value: summary.tierB.totalGifts,
-            accent: "from-sky-300/60 to-sky-500/50 text-sky-100",
-            thresholdValue: Number(thresholdB),
-          },
-        ].map((item) => (
-          <div
-            key={item.label}
-            className={`rounded-2xl border border-white/10 bg-gradient-to-br ${item.accent} p-4 text-center shadow-lg shadow-black/30`}
-          >
-            <p className="text-xs font-semibold uppercase tracking-wide text-white/90">
-              {item.label}
-            </p>
-            <p className="text-4xl font-black text-white">
-              {item.value}
-              <span className="ml-1 text-base font-semibold">份</span>
-            </p>
-            <p className="text-xs text-white/90">
-              門檻 ${item.thresholdValue.toLocaleString()}
+      {summary.stores.map((store, storeIndex) => (
+        <div key={storeIndex} className="space-y-2">
+          {summary.stores.length > 1 ? (
+            <p className="text-sm font-semibold text-white/80">
+              {store.name}：{storeGifts(store)}份
             </p>
+          ) : null}
+          <div className="grid gap-3 md:grid-cols-2">
+            {store.tiers.map((tier, index) => (
+              <div
+                key={`${tier.label}-${index}`}
+                className={`rounded-2xl border border-white/10 bg-gradient-to-br ${
+                  tierAccent(index).card
+                } p-4 text-center shadow-lg shadow-black/30`}
+              >
+                <p className="text-xs font-semibold uppercase tracking-wide text-white/90">
+                  {tier.label}
+                </p>
+                <p className="text-4xl font-black text-white">
+                  {tier.result.totalGifts}
+                  <span className="ml-1 text-base font-semibold">份</span>
+                </p>
+                <p className="text-xs text-white/90">
+                  門檻 ${tier.threshold.toLocaleString()}
+                </p>
+                <p className="mt-1 text-xs text-white/80">
+                  最多可能：{tier.result.upperBound}份／找到：
+                  {tier.result.totalGifts}份
+                </p>
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </div>
+      ))}
+
+      {summary.combined.gap > 0 ? (
+        <p className="text-xs text-amber-200">
+          若全部以最低門檻計算，理論上最多還可能多 {summary.combined.gap}
+          份，調整購買內容或許能拿到更多贈品。
+        </p>
+      ) : (
+        <p className="text-xs text-emerald-200">
+          各門檻的贈品數皆已達理論上限。
+        </p>
+      )}
+      {summary.combined.timedOut ? (
+        <p className="text-xs text-amber-200">
+          計算時間已用完，部分搜尋提前結束。在較快或較慢的裝置上（包括開啟分享連結時）
+          結果可能不同，延長計算時間可能找到更好的組合。
+        </p>
+      ) : null}
     </div>
   );
 }
 
-function ResultStats({
-  summary,
-  thresholdA,
-  thresholdB,
-}: {
-  summary: TieredCalculationResult;
-  thresholdA: string;
-  thresholdB: string;
-}) {
+function ResultStats({ summary }: { summary: TieredCalculationResult }) {
   return (
     <div className="grid gap-3 text-sm text-white/80">
       <p>
@@ -494,53 +1977,95 @@ function ResultStats({
         </span>
       </p>
       <p>
-        門檻金額:{" "}
-        <span className="font-semibold text-amber-200">
-          A ${Number(thresholdA).toLocaleString()}
-        </span>{" "}
-        <span className="font-semibold text-sky-200">
-          B ${Number(thresholdB).toLocaleString()}
+        贈品總價值:{" "}
+        <span className="font-semibold text-white">
+          {summary.combined.totalValue.toLocaleString()}
         </span>
       </p>
+      {summary.stores.map((store, storeIndex) => (
+        <p key={storeIndex}>
+          {summary.stores.length > 1 ? `${store.name} ` : null}門檻金額:{" "}
+          {store.tiers.map((tier, index) => (
+            <span
+              key={`${tier.label}-${index}`}
+              className={`mr-2 font-semibold ${tierAccent(index).text}`}
+            >
+              {tier.label} ${tier.threshold.toLocaleString()}
+            </span>
+          ))}
+        </p>
+      ))}
     </div>
   );
 }
 
 function GiftCombinationList({
   summary,
-  thresholdA,
-  thresholdB,
 }: {
   summary: TieredCalculationResult;
-  thresholdA: string;
-  thresholdB: string;
 }) {
+  return (
+    <div className="space-y-6">
+      {summary.stores.map((store, storeIndex) => (
+        <div key={storeIndex} className="space-y-4">
+          {summary.stores.length > 1 ? (
+            <p className="text-base font-semibold text-white">{store.name}</p>
+          ) : null}
+          <TierCombinationList tiers={store.tiers} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TierCombinationList({ tiers }: { tiers: TierOutcome[] }) {
   return (
     <div className="space-y-4">
-      {[
-        {
-          label: "贈品A",
-          tier: summary.tierA,
-          accent: "text-amber-200",
-          thresholdValue: Number(thresholdA),
-        },
-        {
-          label: "贈品B",
-          tier: summary.tierB,
-          accent: "text-sky-200",
-          thresholdValue: Number(thresholdB),
-        },
-      ].map(({ label, tier, accent, thresholdValue }) => (
-        <div key={label}>
+      {tiers.map(({ label, threshold, maxGifts, result: tier }, tierIndex) => (
+        <div key={`${label}-${tierIndex}`}>
           <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
             <p className="text-sm font-semibold text-white/80">
               {label} 的組合
             </p>
-            <p className={`text-xs font-semibold ${accent}`}>
-              門檻 ${thresholdValue.toLocaleString()} ／ {tier.totalGifts}份
+            <p
+              className={`text-xs font-semibold ${tierAccent(tierIndex).text}`}
+            >
+              門檻 ${threshold.toLocaleString()} ／ {tier.totalGifts}份
+              {maxGifts !== undefined ? `（上限 ${maxGifts} 份）` : null} ／
+              超出合計 $
+              {(
+                tier.coveredAmount -
+                threshold * tier.totalGifts
+              ).toLocaleString()}
+              {tier.optimal ? "（已確認為最佳解）" : null}
             </p>
           </div>
-          {tier.groups.length ? (
+          {tier.groups.length > COLLAPSE_GROUPS_OVER ? (
+            <ul className="space-y-2 text-sm text-white/90">
+              {collapseGroups(tier.groups).map(({ group, count }, index) => (
+                <li
+                  key={`${label}-${index}`}
+                  className="rounded-xl border border-white/10 bg-white/5 p-4"
+                >
+                  <p className="text-xs uppercase text-white/60">
+                    相同組合 × {count}
+                    {groupExclusiveKey(group)
+                      ? `・${groupExclusiveKey(group)}`
+                      : null}
+                  </p>
+                  <p className="text-lg font-semibold text-white">
+                    每組合計 ${group.total.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-white/60">
+                    每組超出門檻 ${(group.total - threshold).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-white/70">
+                    {formatItemSummary(group.items, " + ")}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : tier.groups.length ? (
             <ul className="space-y-2 text-sm text-white/90">
               {tier.groups.map((group, index) => (
                 <li
@@ -549,17 +2074,23 @@ function GiftCombinationList({
                 >
                   <p className="text-xs uppercase text-white/60">
                     組合 {index + 1}
+                    {groupExclusiveKey(group)
+                      ? `・${groupExclusiveKey(group)}`
+                      : null}
                   </p>
                   <p className="text-lg font-semibold text-white">
                     合計 ${group.total.toLocaleString()}
+                    <span className="ml-2 text-xs font-normal text-white/60">
+                      超出門檻 ${(group.total - threshold).toLocaleString()}
+                    </span>
                   </p>
+                  {group.items.some((item) => itemName(item)) ? (
+                    <p className="text-sm text-white/90">
+                      {formatItemSummary(group.items, " + ")}
+                    </p>
+                  ) : null}
                   <p className="text-xs text-white/70">
-                    {group.items
-                      .map(
-                        (item) =>
-                          `#${item.position}: $${item.amount.toLocaleString()}`
-                      )
-                      .join(" + ")}
+                    {group.items.map(formatItemDetail).join(" + ")}
                   </p>
                 </li>
               ))}
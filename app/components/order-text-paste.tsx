@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import { parseOrderText } from "~/lib/order-text-parser";
+
+export type PastedOrderLine = {
+  price: number;
+  quantity: number;
+  name: string;
+};
+
+type OrderTextPasteProps = {
+  onApply: (lines: PastedOrderLine[]) => void;
+  disabled: boolean;
+};
+
+/** 貼り付けた注文テキストを解析し、読めた行・読めなかった行を確認してから加える */
+export function OrderTextPaste({ onApply, disabled }: OrderTextPasteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const lines = useMemo(() => parseOrderText(text), [text]);
+  const recognized = lines.flatMap((line) =>
+    line.ok
+      ? [{ price: line.price, quantity: line.quantity, name: line.name }]
+      : []
+  );
+
+  if (!isOpen) {
+    return (
+      <Button
+        type="button"
+        variant="secondary"
+        disabled={disabled}
+        className="w-full border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+        onClick={() => setIsOpen(true)}
+      >
+        貼上訂單文字
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-3">
+      <textarea
+        className="min-h-24 w-full rounded-md border border-white/10 bg-transparent px-3 py-2 text-sm text-white placeholder:text-white/40"
+        value={text}
+        aria-label="訂單文字"
+        placeholder={
+          "每行一項商品，例如：\n1400 x3\n2 x ¥1,400\n咖啡豆 1,200円 2個"
+        }
+        onChange={(event) => setText(event.currentTarget.value)}
+      />
+      {lines.length ? (
+        <ul className="space-y-1 text-xs">
+          {lines.map((line) => (
+            <li
+              key={line.line}
+              className={line.ok ? "text-emerald-200" : "text-red-300"}
+            >
+              <span className="text-white/40">第 {line.line} 行</span>{" "}
+              {line.ok
+                ? `$${line.price.toLocaleString()} × ${line.quantity}${
+                    line.name ? `　${line.name}` : ""
+                  }`
+                : `${line.text} — ${line.reason}`}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          disabled={disabled || !recognized.length}
+          className="border border-white/10 bg-white/10 text-white hover:bg-white/20"
+          onClick={() => {
+            onApply(recognized);
+            setText("");
+            setIsOpen(false);
+          }}
+        >
+          加入 {recognized.length} 筆
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          className="text-white/70 hover:text-white"
+          onClick={() => {
+            setText("");
+            setIsOpen(false);
+          }}
+        >
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+import { useEffect, useRef, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "~/components/ui/field";
+import type {
+  GiftTier,
+  TieredCalculationResult,
+} from "~/components/gift-calculator";
+import {
+  DEFAULT_TIERS,
+  GiftTierList,
+  MAX_TIERS,
+  parseGiftTiers,
+  ResultsPanel,
+} from "~/components/gift-calculator";
+import { findRemovableItems, MAX_TOTAL_UNITS } from "~/lib/optimizer";
+import type { WorkerRun } from "~/lib/optimizer-client";
+import {
+  runOptimizerInWorker,
+  runPlannerInWorker,
+} from "~/lib/optimizer-client";
+import type {
+  CatalogEntry,
+  PlanGoal,
+  PurchasePlan,
+} from "~/lib/purchase-planner";
+
+type CatalogRow = {
+  name: string;
+  price: string;
+  /** どのみち必要な数 */
+  required: string;
+  /** 買うなら最低この数 */
+  minQuantity: string;
+  /** 買える上限 */
+  maxQuantity: string;
+};
+
+type GoalKind = "budget" | "targetGifts";
+
+type PlannerOutcome = {
+  plan: PurchasePlan;
+  /** catalog と同順の表示名 */
+  names: string[];
+  prices: number[];
+  summary: TieredCalculationResult;
+};
+
+const EMPTY_ROW: CatalogRow = {
+  name: "",
+  price: "",
+  required: "",
+  minQuantity: "",
+  maxQuantity: "",
+};
+const DEFAULT_ROWS: CatalogRow[] = [EMPTY_ROW];
+const GOAL_CHOICES: { value: GoalKind; label: string }[] = [
+  { value: "budget", label: "預算上限" },
+  { value: "targetGifts", label: "目標贈品份數" },
+];
+const PLANNER_TIME_BUDGET_MS = 3000;
+
+/** 空欄なら undefined、それ以外は 0 以上の整数 */
+function parseCount(raw: string, message: string) {
+  if (raw.trim() === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new Error(message);
+  return value;
+}
+
+function parseCatalog(rows: CatalogRow[]): CatalogEntry[] {
+  const entries = rows.flatMap((row, index): CatalogEntry[] => {
+    if (row.price.trim() === "") return [];
+    const label = row.name.trim() || `第${index + 1}項`;
+    const amount = Number(row.price);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`請正確輸入${label}的價格。`);
+    }
+    const requiredQuantity = parseCount(
+      row.required,
+      `請正確輸入${label}的需要數量。`
+    );
+    const minQuantity = parseCount(
+      row.minQuantity,
+      `請正確輸入${label}的最少購買數量。`
+    );
+    const maxQuantity = parseCount(
+      row.maxQuantity,
+      `請正確輸入${label}的最多購買數量。`
+    );
+    if (
+      maxQuantity !== undefined &&
+      maxQuantity < Math.max(requiredQuantity ?? 0, minQuantity ?? 0)
+    ) {
+      throw new Error(`${label}的最多購買數量小於需要或最少的數量。`);
+    }
+
+    return [
+      {
+        amount,
+        requiredQuantity,
+        minQuantity,
+        maxQuantity,
+        meta: row.name.trim() ? { name: row.name.trim() } : undefined,
+      },
+    ];
+  });
+
+  if (!entries.length) {
+    throw new Error("請至少輸入一項商品的價格。");
+  }
+  return entries;
+}
+
+export function PurchasePlanner() {
+  const [tiers, setTiers] = useState<GiftTier[]>(DEFAULT_TIERS);
+  const [rows, setRows] = useState<CatalogRow[]>(DEFAULT_ROWS);
+  const [goalKind, setGoalKind] = useState<GoalKind>("budget");
+  const [goalValue, setGoalValue] = useState("");
+  const [outcome, setOutcome] = useState<PlannerOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [progressGifts, setProgressGifts] = useState<number | null>(null);
+  /** 実行中の計算（購入数の計画 → グループの最適化の順に入れ替わる） */
+  const runRef = useRef<WorkerRun<unknown> | null>(null);
+
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  const addTier = () => {
+    setTiers((prev) => [
+      ...prev,
+      {
+        label: `贈品${String.fromCharCode(65 + prev.length)}`,
+        threshold: "",
+        value: "",
+        maxGifts: "",
+      },
+    ]);
+  };
+
+  const updateTier = (
+    index: number,
+    field: keyof GiftTier,
+    rawValue: string
+  ) => {
+    const sanitized =
+      field === "label"
+        ? rawValue
+        : rawValue.replace(field === "maxGifts" ? /[^0-9]/g : /[^0-9.]/g, "");
+    setTiers((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], [field]: sanitized };
+      return next;
+    });
+  };
+
+  const removeTier = (index: number) => {
+    setTiers((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  const addRow = () => {
+    setRows((prev) => [...prev, EMPTY_ROW]);
+  };
+
+  const updateRow = (
+    index: number,
+    field: keyof CatalogRow,
+    rawValue: string
+  ) => {
+    const sanitized =
+      field === "name"
+        ? rawValue
+        : rawValue.replace(field === "price" ? /[^0-9.]/g : /[^0-9]/g, "");
+    setRows((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], [field]: sanitized };
+      return next;
+    });
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  const handlePlan = async () => {
+    runRef.current?.cancel();
+    setError(null);
+
+    let run: WorkerRun<unknown> | null = null;
+
+    try {
+      const parsedTiers = parseGiftTiers(tiers);
+      const catalog = parseCatalog(rows);
+
+      const target = Number(goalValue);
+      if (!Number.isFinite(target) || target <= 0) {
+        throw new Error(
+          goalKind === "budget"
+            ? "請正確輸入預算金額。"
+            : "請正確輸入目標贈品份數。"
+        );
+      }
+      const goal: PlanGoal =
+        goalKind === "budget"
+          ? { budget: target }
+          : { targetGifts: Math.ceil(target) };
+
+      const planning = runPlannerInWorker(
+        catalog,
+        parsedTiers,
+        goal,
+        {},
+        (progress) => setProgressGifts(progress.bestGifts)
+      );
+      run = planning;
+      runRef.current = run;
+      setIsCalculating(true);
+      setProgressGifts(null);
+
+      const plan = await planning.result;
+      if (runRef.current !== run) return;
+      if (!plan.items.length) {
+        throw new Error("在目前的條件下找不到可以獲得贈品的買法。");
+      }
+      if (plan.items.length > MAX_TOTAL_UNITS) {
+        throw new Error(
+          `最多只能計算合計${MAX_TOTAL_UNITS}件，請調整需要數量。`
+        );
+      }
+
+      const optimizing = runOptimizerInWorker(
+        [{ items: plan.items, tiers: parsedTiers }],
+        { mode: "exact", timeBudgetMs: PLANNER_TIME_BUDGET_MS },
+        (progress) => setProgressGifts(progress.bestGifts)
+      );
+      run = optimizing;
+      runRef.current = run;
+
+      const result = await optimizing.result;
+      if (runRef.current !== run) return;
+
+      const storeResult = result.stores[0];
+      // 1 商品 = 1 行として、position は catalog 順に振られている
+      let nextPosition = 1;
+      const rowPositions = plan.quantities
+        .filter((quantity) => quantity > 0)
+        .map((quantity) =>
+          Array.from({ length: quantity }, () => nextPosition++)
+        );
+
+      setOutcome({
+        plan,
+        names: catalog.map(
+          (entry, index) => entry.meta?.name ?? `第${index + 1}項`
+        ),
+        prices: catalog.map((entry) => entry.amount),
+        summary: {
+          stores: [
+            {
+              name: "",
+              tiers: parsedTiers.map((tier, index) => ({
+                ...tier,
+                result: storeResult.tiers[index],
+              })),
+              leftover: storeResult.leftover,
+              constraintIssues: [],
+              topUp: null,
+              removable: findRemovableItems(storeResult),
+              rowPositions,
+            },
+          ],
+          combined: {
+            totalAmount: result.totalAmount,
+            coveredAmount: result.coveredAmount,
+            totalGifts: result.totalGifts,
+            totalValue: result.totalValue,
+            gap: result.gap,
+            timedOut: result.timedOut,
+          },
+        },
+      });
+    } catch (err) {
+      if (run && runRef.current !== run) return;
+      setOutcome(null);
+      const message = err instanceof Error ? err.message : "計算時發生錯誤。";
+      setError(message);
+    } finally {
+      if (!run || runRef.current === run) {
+        runRef.current = null;
+        setIsCalculating(false);
+        setProgressGifts(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    runRef.current?.cancel();
+  };
+
+  return (
+    <div className="mt-8 grid gap-8 md:grid-cols-[1.2fr_1fr]">
+      <FieldSet>
+        <FieldLegend>採購規劃</FieldLegend>
+        <Field>
+          <FieldLabel>贈品門檻金額</FieldLabel>
+          <FieldContent className="space-y-3">
+            <GiftTierList
+              tiers={tiers}
+              onUpdateTier={updateTier}
+              onRemoveTier={removeTier}
+            />
+            {tiers.length < MAX_TIERS ? (
+              <Button
+                type="button"
+                variant="secondary"
+                className="w-full border border-white/10 bg-white/10 text-white hover:bg-white/20"
+                onClick={addTier}
+              >
+                + 新增贈品門檻
+              </Button>
+            ) : null}
+          </FieldContent>
+        </Field>
+
+        <Field>
+          <FieldLabel>可購買的商品</FieldLabel>
+          <FieldContent className="space-y-3">
+            <CatalogRowList
+              rows={rows}
+              onUpdateRow={updateRow}
+              onRemoveRow={removeRow}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              className="w-full border border-white/10 bg-white/10 text-white hover:bg-white/20"
+              onClick={addRow}
+            >
+              + 新增商品
+            </Button>
+            <FieldDescription>
+              「需要數量」是一定要買的數量；「最少」是要買時至少得買的數量（如整組販售）；
+              「最多」是庫存或限購數量。皆可留白。
+            </FieldDescription>
+          </FieldContent>
+        </Field>
+
+        <Field>
+          <FieldLabel>目標</FieldLabel>
+          <FieldContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {GOAL_CHOICES.map((choice) => (
+                <Button
+                  key={choice.value}
+                  type="button"
+                  variant="secondary"
+                  aria-pressed={goalKind === choice.value}
+                  onClick={() => setGoalKind(choice.value)}
+                  className={
+                    goalKind === choice.value
+                      ? "border border-emerald-300/60 bg-emerald-500/20 text-white hover:bg-emerald-500/30"
+                      : "border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+                  }
+                >
+                  {choice.label}
+                </Button>
+              ))}
+            </div>
+            <Input
+              className="border-white/10 bg-transparent"
+              value={goalValue}
+              aria-label={goalKind === "budget" ? "預算金額" : "目標贈品份數"}
+              inputMode="numeric"
+              placeholder={
+                goalKind === "budget"
+                  ? "預算（例如：10000）"
+                  : "份數（例如：5）"
+              }
+              onChange={(event) =>
+                setGoalValue(event.currentTarget.value.replace(/[^0-9.]/g, ""))
+              }
+            />
+            <FieldDescription>
+              每次都挑「多拿 1
+              份贈品最省錢」的加購方式，直到用完預算或達到目標份數，
+              再把選好的商品交給最佳化計算分配結帳組合。
+            </FieldDescription>
+          </FieldContent>
+        </Field>
+
+        {isCalculating ? (
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              disabled
+              className="flex-1 bg-emerald-500 text-white"
+            >
+              計算中...
+              {progressGifts !== null ? `（目前 ${progressGifts} 份）` : ""}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleCancel}
+              className="border border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              取消
+            </Button>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            onClick={handlePlan}
+            className="w-full bg-emerald-500 text-white hover:bg-emerald-600 focus-visible:bg-emerald-600"
+          >
+            規劃購買清單
+          </Button>
+        )}
+      </FieldSet>
+
+      <div className="space-y-6">
+        {outcome ? <ShoppingList outcome={outcome} /> : null}
+        <ResultsPanel summary={outcome?.summary ?? null} error={error} />
+      </div>
+    </div>
+  );
+}
+
+function CatalogRowList({
+  rows,
+  onUpdateRow,
+  onRemoveRow,
+}: {
+  rows: CatalogRow[];
+  onUpdateRow: (index: number, field: keyof CatalogRow, value: string) => void;
+  onRemoveRow: (index: number) => void;
+}) {
+  const fields: {
+    field: Exclude<keyof CatalogRow, "name" | "price">;
+    label: string;
+  }[] = [
+    { field: "required", label: "需要" },
+    { field: "minQuantity", label: "最少" },
+    { field: "maxQuantity", label: "最多" },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div
+          key={index}
+          className="flex flex-col gap-3 rounded-lg border border-white/10 bg-white/5 p-3 md:flex-row md:items-center"
+        >
+          <div className="flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Input
+                className="border-white/10 bg-transparent"
+                value={row.name}
+                aria-label={`商品名稱 ${index + 1}`}
+                placeholder="商品名稱（選填）"
+                onChange={(event) =>
+                  onUpdateRow(index, "name", event.currentTarget.value)
+                }
+              />
+              <Input
+                className="border-white/10 bg-transparent md:w-36"
+                value={row.price}
+                aria-label={`商品價格 ${index + 1}`}
+                inputMode="numeric"
+                placeholder="價格"
+                onChange={(event) =>
+                  onUpdateRow(index, "price", event.currentTarget.value)
+                }
+              />
+            </div>
+            <div className="flex gap-2">
+              {fields.map(({ field, label }) => (
+                <Input
+                  key={field}
+                  className="border-white/10 bg-transparent"
+                  value={row[field]}
+                  aria-label={`${label}數量 ${index + 1}`}
+                  inputMode="numeric"
+                  placeholder={label}
+                  onChange={(event) =>
+                    onUpdateRow(index, field, event.currentTarget.value)
+                  }
+                />
+              ))}
+            </div>
+          </div>
+          {rows.length > 1 ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-xs text-white/70 hover:text-white"
+              onClick={() => onRemoveRow(index)}
+            >
+              刪除
+            </Button>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ShoppingList({ outcome }: { outcome: PlannerOutcome }) {
+  const { plan, names, prices, summary } = outcome;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/40 p-6 shadow-inner shadow-black/30">
+      <h2 className="text-xl font-semibold text-white">購買清單</h2>
+      <ul className="mt-4 space-y-1 text-sm text-white/90">
+        {plan.quantities.map((quantity, index) =>
+          quantity > 0 ? (
+            <li key={index} className="flex justify-between gap-2">
+              <span>
+                {names[index]} ${prices[index].toLocaleString()} × {quantity}
+              </span>
+              <span className="text-white/70">
+                ${(prices[index] * quantity).toLocaleString()}
+              </span>
+            </li>
+          ) : null
+        )}
+      </ul>
+      <p className="mt-3 text-sm text-white/80">
+        合計{" "}
+        <span className="font-semibold text-white">
+          ${plan.spent.toLocaleString()}
+        </span>
+        ，可獲得 {summary.combined.totalGifts} 份贈品
+      </p>
+      {plan.overBudget ? (
+        <p className="mt-1 text-xs text-amber-200">
+          光是需要的數量就已超過預算。
+        </p>
+      ) : null}
+      {plan.reachedTarget === false ? (
+        <p className="mt-1 text-xs text-amber-200">
+          在目前的商品與數量限制下，無法達到目標份數。
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import type { TieredCalculationResult } from "~/components/gift-calculator";
+import { Button } from "~/components/ui/button";
+
+export const MAX_SNAPSHOTS = 4;
+
+/** 比較用に残した計算結果と、そのときの入力（encodeScenario の文字列） */
+export type ComparisonSnapshot = {
+  id: number;
+  label: string;
+  scenario: string;
+  result: TieredCalculationResult;
+};
+
+type Metric = {
+  key: string;
+  label: string;
+  /** 該当しない（その段がない・景品 0 個など）は null */
+  valueOf: (result: TieredCalculationResult) => number | null;
+  format: (value: number) => string;
+  /** 差の色分け。どちらが良いとも言えない指標は null */
+  better: "higher" | "lower" | null;
+};
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const formatCount = (value: number) => `${value} 份`;
+
+/** 店舗・段ごとの景品数（スナップショットによって段が違ってもよい） */
+function tierMetrics(snapshots: ComparisonSnapshot[]): Metric[] {
+  const multiStore = snapshots.some((s) => s.result.stores.length > 1);
+  const keys = new Map<string, string>();
+  for (const { result } of snapshots) {
+    for (const store of result.stores) {
+      for (const tier of store.tiers) {
+        const key = `${store.name}\u0000${tier.label}\u0000${tier.threshold}`;
+        keys.set(
+          key,
+          `${multiStore ? `${store.name}・` : ""}${
+            tier.label
+          }（$${tier.threshold.toLocaleString()}）`
+        );
+      }
+    }
+  }
+
+  return [...keys].map(([key, label]) => ({
+    key,
+    label,
+    valueOf: (result) => {
+      const [storeName, tierLabel, threshold] = key.split("\u0000");
+      const tier = result.stores
+        .find((store) => store.name === storeName)
+        ?.tiers.find(
+          (t) => t.label === tierLabel && String(t.threshold) === threshold
+        );
+      return tier ? tier.result.totalGifts : null;
+    },
+    format: formatCount,
+    better: "higher",
+  }));
+}
+
+const TOTAL_METRICS: Metric[] = [
+  {
+    key: "totalGifts",
+    label: "贈品總數",
+    valueOf: (result) => result.combined.totalGifts,
+    format: formatCount,
+    better: "higher",
+  },
+  {
+    key: "totalValue",
+    label: "贈品價值",
+    valueOf: (result) => result.combined.totalValue,
+    format: formatMoney,
+    better: "higher",
+  },
+  {
+    key: "coveredAmount",
+    label: "達到門檻的金額",
+    valueOf: (result) => result.combined.coveredAmount,
+    format: formatMoney,
+    better: null,
+  },
+  {
+    key: "leftover",
+    label: "未使用金額",
+    valueOf: (result) =>
+      result.combined.totalAmount - result.combined.coveredAmount,
+    format: formatMoney,
+    better: "lower",
+  },
+  {
+    key: "totalAmount",
+    label: "總金額",
+    valueOf: (result) => result.combined.totalAmount,
+    format: formatMoney,
+    better: null,
+  },
+  {
+    key: "costPerGift",
+    label: "每份贈品的花費",
+    valueOf: (result) =>
+      result.combined.totalGifts
+        ? result.combined.totalAmount / result.combined.totalGifts
+        : null,
+    format: formatMoney,
+    better: "lower",
+  },
+];
+
+type ScenarioComparisonProps = {
+  snapshots: ComparisonSnapshot[];
+  /** いまの結果を追加できるか（結果がない・上限に達しているなら false） */
+  canAdd: boolean;
+  onAdd: () => void;
+  onRemove: (id: number) => void;
+  onRestore: (snapshot: ComparisonSnapshot) => void;
+  disabled: boolean;
+};
+
+/** 最初のプランを基準に、ほかのプランとの差を色分けして並べる */
+export function ScenarioComparison({
+  snapshots,
+  canAdd,
+  onAdd,
+  onRemove,
+  onRestore,
+  disabled,
+}: ScenarioComparisonProps) {
+  const metrics = [...tierMetrics(snapshots), ...TOTAL_METRICS];
+  const [base] = snapshots;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/40 p-6 shadow-inner shadow-black/30">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold text-white">方案比較</h2>
+        <Button
+          type="button"
+          variant="secondary"
+          disabled={!canAdd || disabled}
+          onClick={onAdd}
+          className="border border-white/10 bg-white/10 text-white hover:bg-white/20"
+        >
+          + 加入目前結果（{snapshots.length}／{MAX_SNAPSHOTS}）
+        </Button>
+      </div>
+      {snapshots.length ? (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full min-w-max text-left text-sm text-white/90">
+            <thead>
+              <tr className="border-b border-white/10 text-xs text-white/60">
+                <th className="py-2 pr-4 font-normal">項目</th>
+                {snapshots.map((snapshot, index) => (
+                  <th key={snapshot.id} className="py-2 pr-4 font-normal">
+                    <p className="text-sm font-semibold text-white">
+                      {snapshot.label}
+                      {index === 0 && snapshots.length > 1 ? "（基準）" : ""}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        disabled={disabled}
+                        className="text-emerald-300 hover:text-emerald-200 disabled:opacity-50"
+                        onClick={() => onRestore(snapshot)}
+                      >
+                        載入條件
+                      </button>
+                      <button
+                        type="button"
+                        className="text-white/60 hover:text-white"
+                        onClick={() => onRemove(snapshot.id)}
+                      >
+                        移除
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map((metric) => {
+                const baseValue = metric.valueOf(base.result);
+                return (
+                  <tr key={metric.key} className="border-b border-white/5">
+                    <th className="py-2 pr-4 text-xs font-normal text-white/70">
+                      {metric.label}
+                    </th>
+                    {snapshots.map((snapshot, index) => {
+                      const value = metric.valueOf(snapshot.result);
+                      return (
+                        <td key={snapshot.id} className="py-2 pr-4">
+                          {value === null ? "—" : metric.format(value)}
+                          {index > 0 ? (
+                            <Difference
+                              metric={metric}
+                              value={value}
+                              baseValue={baseValue}
+                            />
+                          ) : null}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-white/60">
+          計算完成後按「加入目前結果」，最多可並排比較 {MAX_SNAPSHOTS}{" "}
+          個方案（例如加入或拿掉某項商品前後）。
+        </p>
+      )}
+    </div>
+  );
+}
+
+function Difference({
+  metric,
+  value,
+  baseValue,
+}: {
+  metric: Metric;
+  value: number | null;
+  baseValue: number | null;
+}) {
+  if (value === null || baseValue === null) return null;
+  const diff = value - baseValue;
+  if (Math.abs(diff) < 0.005) return null;
+
+  const improved = metric.better === "higher" ? diff > 0 : diff < 0;
+  const color =
+    metric.better === null
+      ? "text-amber-200"
+      : improved
+      ? "text-emerald-300"
+      : "text-red-300";
+  return (
+    <span className={`ml-1 text-xs font-semibold ${color}`}>
+      （{diff > 0 ? "+" : "−"}
+      {metric.format(Math.abs(diff))}）
+    </span>
+  );
+}
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldLabel,
+} from "~/components/ui/field";
+import type {
+  SavedScenario,
+  SavedScenarioResult,
+  SavedScenarioSummary,
+} from "~/lib/saved-scenarios";
+import { MAX_SCENARIO_NAME_LENGTH } from "~/lib/saved-scenarios";
+
+type ScenarioPickerProps = {
+  /** いまの入力を encodeScenario した文字列 */
+  getScenario: () => string;
+  /**
+   * いまの計算結果と、計算したときの入力（encodeScenario の文字列）。
+   * 保存時の入力と同じときだけ一緒に残す（入力を変えたあとの古い結果は残さない）
+   */
+  lastResult: { scenario: string; result: SavedScenarioResult } | null;
+  onLoad: (saved: SavedScenario) => void;
+  disabled: boolean;
+};
+
+/** 情境 API の共有キーを覚えておく localStorage のキー */
+const SCENARIOS_TOKEN_STORAGE_KEY = "gift-bundle-optimizer:scenarios-token";
+
+/** /api/scenarios を呼ぶ。エラー時は API の message（キーの問題は画面用の文言）を投げる */
+async function requestScenarios<T>(
+  token: string,
+  path: string,
+  init?: RequestInit
+) {
+  const response = await fetch(`/api/scenarios${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init?.body ? { "Content-Type": "application/json" } : {}),
+    },
+  });
+  if (response.status === 401) {
+    throw new Error("存取金鑰不正確，請向管理者確認。");
+  }
+  if (response.status === 503) {
+    throw new Error("伺服器尚未設定情境儲存（KV 或存取金鑰），無法使用。");
+  }
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as {
+      message?: string;
+    } | null;
+    throw new Error(body?.message ?? `HTTP ${response.status}`);
+  }
+  return (response.status === 204 ? null : await response.json()) as T;
+}
+
+export function ScenarioPicker({
+  getScenario,
+  lastResult,
+  onLoad,
+  disabled,
+}: ScenarioPickerProps) {
+  const [scenarios, setScenarios] = useState<SavedScenarioSummary[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  /** 使っているキーと入力中のキー（欄を離れたときに切り替える） */
+  const [token, setToken] = useState("");
+  const [tokenDraft, setTokenDraft] = useState("");
+
+  // token が変わったら作り直す。isCancelled が true なら古い応答なので捨てる
+  const refresh = useCallback(
+    async (isCancelled: () => boolean = () => false) => {
+      const { scenarios } = await requestScenarios<{
+        scenarios: SavedScenarioSummary[];
+      }>(token, "");
+      if (!isCancelled()) setScenarios(scenarios);
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    const stored = localStorage.getItem(SCENARIOS_TOKEN_STORAGE_KEY) ?? "";
+    setToken(stored);
+    setTokenDraft(stored);
+  }, []);
+
+  useEffect(() => {
+    setScenarios([]);
+    if (!token) return;
+    let cancelled = false;
+    setError(null);
+    refresh(() => cancelled).catch((err) => {
+      if (cancelled) return;
+      setError(err instanceof Error ? err.message : "無法取得已儲存的情境。");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, refresh]);
+
+  const applyToken = () => {
+    const next = tokenDraft.trim();
+    if (next === token) return;
+    localStorage.setItem(SCENARIOS_TOKEN_STORAGE_KEY, next);
+    setToken(next);
+  };
+
+  // 一覧の更新まで含めて1操作。失敗したら message を出す
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "操作時發生錯誤。");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const body = () => {
+    const scenario = getScenario();
+    return JSON.stringify({
+      name,
+      notes,
+      scenario,
+      lastResult: lastResult?.scenario === scenario ? lastResult.result : null,
+    });
+  };
+
+  const handleLoad = () =>
+    run(async () => {
+      const saved = await requestScenarios<SavedScenario>(
+        token,
+        `/${selectedId}`
+      );
+      setName(saved.name);
+      setNotes(saved.notes);
+      onLoad(saved);
+      return `已讀取「${saved.name}」。`;
+    });
+
+  const handleSaveNew = () =>
+    run(async () => {
+      const saved = await requestScenarios<SavedScenario>(token, "", {
+        method: "POST",
+        body: body(),
+      });
+      setSelectedId(saved.id);
+      return `已另存為「${saved.name}」。`;
+    });
+
+  const handleOverwrite = () =>
+    run(async () => {
+      const saved = await requestScenarios<SavedScenario>(
+        token,
+        `/${selectedId}`,
+        { method: "PUT", body: body() }
+      );
+      return `已覆寫「${saved.name}」。`;
+    });
+
+  const handleRename = () =>
+    run(async () => {
+      const saved = await requestScenarios<SavedScenario>(
+        token,
+        `/${selectedId}`,
+        { method: "PATCH", body: JSON.stringify({ name }) }
+      );
+      return `已重新命名為「${saved.name}」。`;
+    });
+
+  const handleDelete = () => {
+    const target = scenarios.find((scenario) => scenario.id === selectedId);
+    if (!target || !window.confirm(`確定要刪除「${target.name}」嗎？`)) return;
+    return run(async () => {
+      await requestScenarios<null>(token, `/${selectedId}`, {
+        method: "DELETE",
+      });
+      setSelectedId("");
+      return `已刪除「${target.name}」。`;
+    });
+  };
+
+  const locked = disabled || isBusy || !token;
+  const hasName = name.trim() !== "";
+
+  return (
+    <Field>
+      <FieldLabel>已儲存的情境</FieldLabel>
+      <FieldContent className="space-y-3">
+        <Input
+          className="border-white/10 bg-transparent text-white"
+          type="password"
+          value={tokenDraft}
+          autoComplete="off"
+          aria-label="情境存取金鑰"
+          placeholder="存取金鑰（向管理者索取）"
+          onChange={(event) => setTokenDraft(event.currentTarget.value)}
+          onBlur={applyToken}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") applyToken();
+          }}
+        />
+        <div className="flex flex-col gap-2 md:flex-row">
+          <select
+            className="h-9 flex-1 rounded-md border border-white/10 bg-transparent px-3 text-sm text-white"
+            value={selectedId}
+            aria-label="已儲存的情境"
+            disabled={locked}
+            onChange={(event) => setSelectedId(event.currentTarget.value)}
+          >
+            <option value="">
+              {scenarios.length ? "選擇情境…" : "尚無已儲存的情境"}
+            </option>
+            {scenarios.map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                {scenario.name}
+                {scenario.totalGifts !== null
+                  ? `（${scenario.totalGifts} 份）`
+                  : ""}
+                ・{scenario.updatedAt.slice(0, 10)}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-3 gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={locked || !selectedId}
+              onClick={handleLoad}
+              className="border border-white/10 bg-white/10 text-white hover:bg-white/20"
+            >
+              讀取
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={locked || !selectedId || !hasName}
+              onClick={handleRename}
+              className="border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+            >
+              重新命名
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={locked || !selectedId}
+              onClick={handleDelete}
+              className="border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+            >
+              刪除
+            </Button>
+          </div>
+        </div>
+        <Input
+          className="border-white/10 bg-transparent text-white"
+          value={name}
+          maxLength={MAX_SCENARIO_NAME_LENGTH}
+          aria-label="情境名稱"
+          placeholder="情境名稱（例：週年慶 2025）"
+          onChange={(event) => setName(event.currentTarget.value)}
+        />
+        <textarea
+          className="min-h-16 w-full rounded-md border border-white/10 bg-transparent px-3 py-2 text-sm text-white placeholder:text-white/40"
+          value={notes}
+          aria-label="情境備註"
+          placeholder="備註（選填）"
+          onChange={(event) => setNotes(event.currentTarget.value)}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={locked || !hasName}
+            onClick={handleSaveNew}
+            className="border border-white/10 bg-white/10 text-white hover:bg-white/20"
+          >
+            另存新情境
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={locked || !selectedId || !hasName}
+            onClick={handleOverwrite}
+            className="border border-white/10 bg-transparent text-white/70 hover:bg-white/10"
+          >
+            覆寫所選情境
+          </Button>
+        </div>
+        {error ? (
+          <p className="text-xs text-red-300">{error}</p>
+        ) : status ? (
+          <p className="text-xs text-emerald-300">{status}</p>
+        ) : null}
+        <FieldDescription>
+          門檻、購買清單、備註與最近一次的計算結果會存在伺服器上，持有存取金鑰的團隊成員都能讀取。金鑰只存在這個瀏覽器。
+        </FieldDescription>
+      </FieldContent>
+    </Field>
+  );
+}
@@ -0,0 +1,103 @@
+import type { TieredCalculationResult } from "~/components/gift-calculator";
+import { formatPositions } from "~/components/gift-calculator";
+import type { SolverMove, SolverMoveKind } from "~/lib/optimizer";
+
+/** 1段あたりに並べる手の上限（局所改善は数百手になることがある） */
+const MOVES_SHOWN = 60;
+
+const MOVE_LABELS: Record<SolverMoveKind, string> = {
+  buildInitialSolution: "初始分組（由大到小依序放入最接近門檻的組）",
+  createGroupFromPool: "用未使用的商品組成新的一組",
+  donateOneItem: "從超出門檻的組拿出商品（該組仍達門檻）",
+  swapItemBetweenGroupAndPool: "把組內較大的商品換成未使用的較小商品",
+  directDonateToComplete: "從其他組借出商品，補足差一點的新組",
+  search: "隨機搜尋找到更好的分組",
+  solveExact: "精確搜尋找到更好的分組",
+  keepCheapestGroups: "調整這個門檻的份數，把金額留給其他門檻",
+  secondaryObjective: "依同份數時的優先條件重新調整",
+};
+
+const formatGroups = (groups: number[][]) =>
+  groups.map((group) => `［${formatPositions(group)}］`).join(" ");
+
+/** 各段の結果がどの手でできたかを、折りたたみの時系列で出す（trace つきで計算したときだけ） */
+export function SolverTraceTimeline({
+  summary,
+}: {
+  summary: TieredCalculationResult;
+}) {
+  const traced = summary.stores.flatMap((store) =>
+    store.tiers.flatMap((tier) =>
+      tier.result.trace
+        ? [
+            {
+              label:
+                summary.stores.length > 1
+                  ? `${store.name}・${tier.label}`
+                  : tier.label,
+              threshold: tier.threshold,
+              trace: tier.result.trace,
+            },
+          ]
+        : []
+    )
+  );
+  if (!traced.length) return null;
+
+  return (
+    <details className="rounded-xl border border-white/10 bg-white/5 p-4">
+      <summary className="cursor-pointer text-sm font-semibold text-white/80">
+        這個結果是怎麼算出來的
+      </summary>
+      <div className="mt-3 space-y-4">
+        {traced.map(({ label, threshold, trace }, index) => (
+          <details key={index} open={traced.length === 1}>
+            <summary className="cursor-pointer text-xs font-semibold text-white/70">
+              {label}（門檻 ${threshold.toLocaleString()}）：{trace.length} 步
+            </summary>
+            <ol className="mt-2 space-y-2 border-l border-white/10 pl-4">
+              {trace.slice(0, MOVES_SHOWN).map((move, moveIndex) => (
+                <MoveEntry key={moveIndex} step={moveIndex + 1} move={move} />
+              ))}
+            </ol>
+            {trace.length > MOVES_SHOWN ? (
+              <p className="mt-1 pl-4 text-xs text-white/50">
+                其他 {trace.length - MOVES_SHOWN} 步略
+              </p>
+            ) : null}
+          </details>
+        ))}
+        {summary.stores.some((store) =>
+          store.tiers.some((tier) => !tier.result.trace)
+        ) ? (
+          <p className="text-xs text-white/50">
+            商品數量較多的門檻以同價合併的方式計算，沒有逐步紀錄。
+          </p>
+        ) : null}
+      </div>
+    </details>
+  );
+}
+
+function MoveEntry({ step, move }: { step: number; move: SolverMove }) {
+  const { before, after } = move;
+  return (
+    <li className="text-xs text-white/70">
+      <p className="text-white/90">
+        {step}. {MOVE_LABELS[move.kind]}
+      </p>
+      <p>
+        贈品 {before.gifts} → {after.gifts} 份・未使用 $
+        {before.poolAmount.toLocaleString()} → $
+        {after.poolAmount.toLocaleString()}
+      </p>
+      {move.positions.length && move.kind !== "buildInitialSolution" ? (
+        <p>移動：{formatPositions(move.positions)}</p>
+      ) : null}
+      {before.groups.length ? (
+        <p>原組合：{formatGroups(before.groups)}</p>
+      ) : null}
+      {after.groups.length ? <p>新組合：{formatGroups(after.groups)}</p> : null}
+    </li>
+  );
+}
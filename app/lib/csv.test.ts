@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import { formatResultCsv, parseCsv, parsePurchaseCsv, toCsv } from "~/lib/csv";
+
+describe("parseCsv", () => {
+  it('引用符の中のカンマ・改行と "" のエスケープを読む', () => {
+    expect(parseCsv('a,"b,c","d\ne","f""g"\r\n1,2')).toEqual([
+      ["a", "b,c", "d\ne", 'f"g'],
+      ["1", "2"],
+    ]);
+  });
+
+  it("1行目にカンマがなくタブがあれば TSV として読む", () => {
+    expect(parseCsv("1400\t3\n300\t1")).toEqual([
+      ["1400", "3"],
+      ["300", "1"],
+    ]);
+  });
+
+  it("BOM を外し、空行は [] として残す", () => {
+    expect(parseCsv("﻿1,2\n\n3,4")).toEqual([["1", "2"], [], ["3", "4"]]);
+  });
+});
+
+describe("parsePurchaseCsv", () => {
+  it("見出しがあれば列名で対応づける", () => {
+    const result = parsePurchaseCsv('品名,數量,金額\n咖啡,2,"$1,400"');
+    expect(result.hasHeader).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.rows).toEqual([
+      {
+        price: "1400",
+        quantity: "2",
+        name: "咖啡",
+        sku: "",
+        note: "",
+        store: "",
+      },
+    ]);
+  });
+
+  it("見出しがなければ 金額, 数量, 品名, 店舗 の順。数量が空なら 1", () => {
+    const result = parsePurchaseCsv("1400,,咖啡,商店2");
+    expect(result.hasHeader).toBe(false);
+    expect(result.rows[0]).toMatchObject({
+      price: "1400",
+      quantity: "1",
+      name: "咖啡",
+      store: "商店2",
+    });
+  });
+
+  it("読めない行は行番号つきで返し、読める行だけ取り込む", () => {
+    const result = parsePurchaseCsv("price,qty\n1400,2\nabc,1\n300,1.5\n500,1");
+    expect(result.rows.map((row) => row.price)).toEqual(["1400", "500"]);
+    expect(result.issues.map((issue) => issue.line)).toEqual([3, 4]);
+  });
+
+  it("見出しに金額の列がなければ取り込まない", () => {
+    const result = parsePurchaseCsv("name,qty\n咖啡,2");
+    expect(result.rows).toEqual([]);
+    expect(result.issues).toEqual([{ line: 1, message: "找不到「金額」欄。" }]);
+  });
+});
+
+describe("toCsv", () => {
+  it("カンマ・引用符・改行を含むセルだけ引用符で囲む", () => {
+    expect(toCsv([["a", 'b"c', "d,e", 1]])).toBe('a,"b""c","d,e",1');
+  });
+
+  it("= + - @ で始まる文字列のセルには ' を付け、数値はそのまま書く", () => {
+    expect(toCsv([["=SUM(A1)", "+1", "-1", "@x", -5, "a=b"]])).toBe(
+      "'=SUM(A1),'+1,'-1,'@x,-5,a=b"
+    );
+  });
+});
+
+describe("formatResultCsv", () => {
+  it("1商品1行で、未使用と全体の合計を後ろに置く", () => {
+    const csv = formatResultCsv(
+      [
+        {
+          name: "商店1",
+          tiers: [
+            {
+              label: "A",
+              result: {
+                groups: [
+                  {
+                    total: 1100,
+                    items: [
+                      { amount: 800, position: 1, meta: { name: "=咖啡" } },
+                      { amount: 300, position: 2 },
+                    ],
+                  },
+                ],
+                leftover: [],
+                totalGifts: 1,
+                totalAmount: 1100,
+                coveredAmount: 1100,
+                threshold: 1000,
+                optimal: true,
+                upperBound: 1,
+                gap: 0,
+              },
+            },
+          ],
+          leftover: [{ amount: 200, position: 3 }],
+        },
+      ],
+      { totalAmount: 1300, coveredAmount: 1100, totalGifts: 1, totalValue: 0 }
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "商店,贈品,門檻,組合,編號,品名,SKU,備註,金額,組合合計,超出門檻",
+      "商店1,A,1000,1,#1,'=咖啡,,,800,1100,100",
+      "商店1,A,1000,1,#2,,,,300,1100,100",
+      "商店1,未使用,,,#3,,,,200,,",
+      "",
+      "總金額,1300",
+      "達到門檻的金額,1100",
+      "贈品份數,1",
+      "贈品價值,0",
+    ]);
+  });
+});
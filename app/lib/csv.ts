@@ -0,0 +1,297 @@
+// csv.ts
+// 購入行の CSV 取り込みと、計算結果の CSV 書き出し。
+// 取り込みは1行目が見出しかどうかを自動判定し、読めない行は行番号つきで返す（読める行だけ取り込む）。
+// メッセージは画面にそのまま出すので繁體中文。
+
+import type { BundleItem, BundleOptimizationResult } from "~/lib/optimizer";
+
+/** 取り込んだ1行（数値も入力欄と同じ文字列で返す） */
+export type PurchaseCsvRow = {
+  price: string;
+  quantity: string;
+  name: string;
+  sku: string;
+  note: string;
+  /** 空なら既定の店舗 */
+  store: string;
+};
+
+export type CsvRowIssue = {
+  /** ファイル上の行番号（1 から） */
+  line: number;
+  message: string;
+};
+
+export type PurchaseCsvImport = {
+  rows: PurchaseCsvRow[];
+  issues: CsvRowIssue[];
+  /** 1行目を見出しとして読んだか */
+  hasHeader: boolean;
+};
+
+type PurchaseColumn = keyof PurchaseCsvRow;
+
+/** 見出しの表記ゆれ（小文字・空白除去で比較） */
+const HEADER_ALIASES: Record<PurchaseColumn, string[]> = {
+  price: ["price", "amount", "unitprice", "金額", "單價", "价格", "價格"],
+  quantity: ["quantity", "qty", "數量", "数量"],
+  name: ["name", "item", "品名", "名稱", "商品", "商品名稱"],
+  sku: ["sku", "代碼", "商品代碼"],
+  note: ["note", "memo", "備註", "备注"],
+  store: ["store", "shop", "商店", "店家"],
+};
+
+/** 見出しがないときの列の並び */
+const DEFAULT_COLUMNS: PurchaseColumn[] = [
+  "price",
+  "quantity",
+  "name",
+  "store",
+];
+
+/**
+ * RFC 4180 相当（"…" の中の , と改行、"" のエスケープ）。
+ * 1行目にカンマがなくタブがあれば TSV として読む（表計算ソフトからの貼り付け）。
+ * 空行は [] として残す（行番号を合わせるため）。
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    !firstLine.includes(",") && firstLine.includes("\t") ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let touched = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+      touched = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+      touched = true;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      if (touched || field) row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      touched = false;
+    } else {
+      field += char;
+      touched = true;
+    }
+  }
+  if (touched || field) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * 文字列のセルが = + - @ で始まるなら ' を前に付ける（表計算ソフトで数式として実行させないため）。
+ * 数値のセル（負の金額など）はそのまま書く。
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text =
+            typeof value === "string" && /^[=+\-@]/.test(value)
+              ? `'${value}`
+              : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+/**
+ * 金額・数量（・品名・店舗など）の CSV を購入行にする。
+ * 見出しがあれば列名で対応づけ（HEADER_ALIASES）、なければ 金額, 数量, 品名, 店舗 の順。
+ * 数量が空なら 1。
+ */
+export function parsePurchaseCsv(text: string): PurchaseCsvImport {
+  const table = parseCsv(text);
+  const firstIndex = table.findIndex((cells) => cells.some((c) => c.trim()));
+  if (firstIndex < 0) {
+    return {
+      rows: [],
+      issues: [{ line: 1, message: "檔案中沒有資料。" }],
+      hasHeader: false,
+    };
+  }
+
+  const headerColumns = detectHeader(table[firstIndex]);
+  const hasHeader = headerColumns !== null;
+  const columns = headerColumns ?? DEFAULT_COLUMNS;
+  const rows: PurchaseCsvRow[] = [];
+  const issues: CsvRowIssue[] = [];
+
+  if (hasHeader && !columns.includes("price")) {
+    return {
+      rows,
+      issues: [{ line: firstIndex + 1, message: "找不到「金額」欄。" }],
+      hasHeader,
+    };
+  }
+
+  for (
+    let index = firstIndex + (hasHeader ? 1 : 0);
+    index < table.length;
+    index++
+  ) {
+    const cells = table[index];
+    if (!cells.some((cell) => cell.trim())) continue;
+
+    const row: PurchaseCsvRow = {
+      price: "",
+      quantity: "",
+      name: "",
+      sku: "",
+      note: "",
+      store: "",
+    };
+    columns.forEach((column, columnIndex) => {
+      if (column) row[column] = (cells[columnIndex] ?? "").trim();
+    });
+
+    const price = parseNumber(row.price);
+    if (!(price > 0)) {
+      issues.push({
+        line: index + 1,
+        message: `金額「${row.price}」不是正數。`,
+      });
+      continue;
+    }
+    const quantity = row.quantity === "" ? 1 : parseNumber(row.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      issues.push({
+        line: index + 1,
+        message: `數量「${row.quantity}」不是正整數。`,
+      });
+      continue;
+    }
+
+    rows.push({ ...row, price: String(price), quantity: String(quantity) });
+  }
+
+  return { rows, issues, hasHeader };
+}
+
+/** 見出し行なら列ごとの対応（対応しない列は null）。金額らしい数値があれば見出しではない */
+function detectHeader(cells: string[]): (PurchaseColumn | null)[] | null {
+  if (cells.some((cell) => Number.isFinite(parseNumber(cell)))) return null;
+
+  const columns = cells.map((cell) => {
+    const key = cell.toLowerCase().replace(/[\s_-]/g, "");
+    const match = (Object.keys(HEADER_ALIASES) as PurchaseColumn[]).find(
+      (column) => HEADER_ALIASES[column].includes(key)
+    );
+    return match ?? null;
+  });
+  return columns.some(Boolean) ? columns : null;
+}
+
+/** "$1,400" / "1400 " → 1400。空・数値でなければ NaN */
+function parseNumber(raw: string) {
+  const cleaned = raw.trim().replace(/^\$/, "").replace(/,/g, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+/** 書き出し対象（画面の StoreOutcome の一部と同じ形） */
+export type ResultCsvStore = {
+  name: string;
+  tiers: { label: string; result: BundleOptimizationResult }[];
+  leftover: BundleItem[];
+};
+
+export type ResultCsvTotals = {
+  totalAmount: number;
+  coveredAmount: number;
+  totalGifts: number;
+  totalValue: number;
+};
+
+const RESULT_HEADER = [
+  "商店",
+  "贈品",
+  "門檻",
+  "組合",
+  "編號",
+  "品名",
+  "SKU",
+  "備註",
+  "金額",
+  "組合合計",
+  "超出門檻",
+];
+
+/**
+ * 1商品1行。グループごとに「組合合計」「超出門檻」列を同じ値で入れる（表計算で集計しやすいように）。
+ * 未使用の商品は「贈品」列を「未使用」にして各店舗の最後に、全体の合計は空行のあとに置く。
+ */
+export function formatResultCsv(
+  stores: ResultCsvStore[],
+  totals: ResultCsvTotals
+): string {
+  const rows: (string | number)[][] = [RESULT_HEADER];
+  const itemCells = (item: BundleItem) => [
+    `#${item.position}`,
+    item.meta?.name ?? "",
+    item.meta?.sku ?? "",
+    item.meta?.note ?? "",
+    item.amount,
+  ];
+
+  for (const store of stores) {
+    for (const tier of store.tiers) {
+      tier.result.groups.forEach((group, groupIndex) => {
+        for (const item of group.items) {
+          rows.push([
+            store.name,
+            tier.label,
+            tier.result.threshold,
+            groupIndex + 1,
+            ...itemCells(item),
+            group.total,
+            group.total - tier.result.threshold,
+          ]);
+        }
+      });
+    }
+    for (const item of store.leftover) {
+      rows.push([store.name, "未使用", "", "", ...itemCells(item), "", ""]);
+    }
+  }
+
+  rows.push(
+    [],
+    ["總金額", totals.totalAmount],
+    ["達到門檻的金額", totals.coveredAmount],
+    ["贈品份數", totals.totalGifts],
+    ["贈品價值", totals.totalValue]
+  );
+  return toCsv(rows);
+}
@@ -0,0 +1,418 @@
+// optimize-request.ts
+// POST /api/optimize のリクエスト JSON を検証して optimizeTieredBundles の引数に変換する。
+// 外部スクリプトから叩かれる前提なので、どこが悪いか（path）を全部返す。
+
+import type {
+  BundleItem,
+  BundleItemMeta,
+  GiftTierSpec,
+  GroupConstraints,
+  OptimizeMode,
+  SearchStrategy,
+  SecondaryObjective,
+  TieredOptimizeOptions,
+  TierObjective,
+} from "~/lib/optimizer";
+import { expandByQuantity, MAX_TOTAL_UNITS } from "~/lib/optimizer";
+
+export const MAX_API_TIERS = 10;
+export const MAX_API_TIME_BUDGET_MS = 10_000;
+/**
+ * Workers では同期処理の間 Date.now() が進まず timeBudgetMs が効かないので、
+ * API は打ち切りの判定1回をこの ms として数える時計（createStepClock）で予算を測る。
+ * 判定の間の仕事量はまちまちだが、この値なら実際の CPU 時間はおおむね timeBudgetMs 以内に収まる。
+ */
+export const API_MS_PER_CLOCK_CHECK = 0.5;
+export const MAX_API_SEARCH_STEPS = 10_000_000;
+
+export type OptimizeRequestIssue = {
+  /** 例: "items[2].quantity" */
+  path: string;
+  message: string;
+};
+
+export type ParsedOptimizeRequest = {
+  items: BundleItem[];
+  tiers: GiftTierSpec[];
+  options: TieredOptimizeOptions;
+};
+
+export type ParseOptimizeRequestResult =
+  | { ok: true; value: ParsedOptimizeRequest }
+  | { ok: false; issues: OptimizeRequestIssue[] };
+
+const MODES: OptimizeMode[] = ["heuristic", "exact"];
+const OBJECTIVES: TierObjective[] = ["lexicographic", "totalGifts", "weighted"];
+const SECONDARY_OBJECTIVES: SecondaryObjective[] = [
+  "minOvershoot",
+  "maxLeftover",
+  "minCheckouts",
+];
+const STRATEGIES: SearchStrategy[] = ["greedy", "restarts", "annealing"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * 受け付ける形:
+ * {
+ *   "tiers": [{ "threshold": 2000, "value": 2, "maxGifts": 3 }, { "threshold": 1000 }],
+ *   "items": [{ "amount": 1400, "quantity": 2 }, { "amount": 300, "quantity": 1 }],
+ *   "options": {
+ *     "mode": "exact", "objective": "totalGifts", "timeBudgetMs": 1000,
+ *     "secondaryObjective": "minOvershoot",
+ *     "strategy": "annealing", "seed": 42, "trace": true,
+ *     "constraints": { "maxItemsPerGroup": 5, "keepSkuTogether": true }
+ *   }
+ * }
+ * "tiers" の代わりに "thresholds": [2000, 1000] でもよい。quantity 省略時は 1。
+ * items には表示用の name / sku / note（文字列）を付けてもよく、結果の各アイテムの meta に入る。
+ * groupKey（同じキーは必ず同じ会計）/ exclusiveKey（別のキーとは同じ会計にしない）も文字列で指定できる。
+ */
+export function parseOptimizeRequest(
+  body: unknown
+): ParseOptimizeRequestResult {
+  const issues: OptimizeRequestIssue[] = [];
+
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      issues: [{ path: "", message: "Request body must be a JSON object." }],
+    };
+  }
+
+  const tiers = parseTiers(body, issues);
+  const rows = parseItems(body.items, issues);
+  const options = parseOptions(body.options, issues);
+
+  if (issues.length) return { ok: false, issues };
+
+  return {
+    ok: true,
+    value: { items: expandByQuantity(rows), tiers, options },
+  };
+}
+
+function parseTiers(
+  body: Record<string, unknown>,
+  issues: OptimizeRequestIssue[]
+): GiftTierSpec[] {
+  const raw =
+    body.tiers ??
+    (Array.isArray(body.thresholds)
+      ? body.thresholds.map((threshold) => ({ threshold }))
+      : undefined);
+  const path = body.tiers !== undefined ? "tiers" : "thresholds";
+
+  if (!Array.isArray(raw) || !raw.length) {
+    issues.push({
+      path,
+      message: 'Provide a non-empty "tiers" (or "thresholds") array.',
+    });
+    return [];
+  }
+
+  if (raw.length > MAX_API_TIERS) {
+    issues.push({
+      path,
+      message: `At most ${MAX_API_TIERS} tiers are supported.`,
+    });
+  }
+
+  return raw.flatMap((tier, index): GiftTierSpec[] => {
+    if (!isRecord(tier) || !isPositiveNumber(tier.threshold)) {
+      issues.push({
+        path: `${path}[${index}].threshold`,
+        message: "threshold must be a positive number.",
+      });
+      return [];
+    }
+
+    if (
+      tier.value !== undefined &&
+      (typeof tier.value !== "number" ||
+        !Number.isFinite(tier.value) ||
+        tier.value < 0)
+    ) {
+      issues.push({
+        path: `${path}[${index}].value`,
+        message: "value must be a non-negative number.",
+      });
+      return [];
+    }
+
+    if (
+      tier.maxGifts !== undefined &&
+      (typeof tier.maxGifts !== "number" ||
+        !Number.isInteger(tier.maxGifts) ||
+        tier.maxGifts < 0)
+    ) {
+      issues.push({
+        path: `${path}[${index}].maxGifts`,
+        message: "maxGifts must be a non-negative integer.",
+      });
+      return [];
+    }
+
+    return [
+      { threshold: tier.threshold, value: tier.value, maxGifts: tier.maxGifts },
+    ];
+  });
+}
+
+function parseItems(
+  raw: unknown,
+  issues: OptimizeRequestIssue[]
+): Parameters<typeof expandByQuantity>[0] {
+  if (!Array.isArray(raw) || !raw.length) {
+    issues.push({
+      path: "items",
+      message: 'Provide a non-empty "items" array.',
+    });
+    return [];
+  }
+
+  const rows = raw.flatMap((item, index) => {
+    if (!isRecord(item) || !isPositiveNumber(item.amount)) {
+      issues.push({
+        path: `items[${index}].amount`,
+        message: "amount must be a positive number.",
+      });
+      return [];
+    }
+
+    const quantity = item.quantity ?? 1;
+    if (
+      typeof quantity !== "number" ||
+      !Number.isInteger(quantity) ||
+      quantity < 1
+    ) {
+      issues.push({
+        path: `items[${index}].quantity`,
+        message: "quantity must be a positive integer.",
+      });
+      return [];
+    }
+
+    const meta: BundleItemMeta = {};
+    for (const key of ["name", "sku", "note"] as const) {
+      const value = item[key];
+      if (value === undefined) continue;
+      if (typeof value !== "string") {
+        issues.push({
+          path: `items[${index}].${key}`,
+          message: `${key} must be a string.`,
+        });
+        continue;
+      }
+      if (value.trim()) meta[key] = value.trim();
+    }
+
+    const keys: Pick<BundleItem, "groupKey" | "exclusiveKey"> = {};
+    for (const key of ["groupKey", "exclusiveKey"] as const) {
+      const value = item[key];
+      if (value === undefined) continue;
+      if (typeof value !== "string") {
+        issues.push({
+          path: `items[${index}].${key}`,
+          message: `${key} must be a string.`,
+        });
+        continue;
+      }
+      if (value.trim()) keys[key] = value.trim();
+    }
+
+    return [
+      Object.keys(meta).length
+        ? { amount: item.amount, quantity, meta, ...keys }
+        : { amount: item.amount, quantity, ...keys },
+    ];
+  });
+
+  const totalUnits = rows.reduce((s, r) => s + r.quantity, 0);
+  if (totalUnits > MAX_TOTAL_UNITS) {
+    issues.push({
+      path: "items",
+      message: `Total quantity must not exceed ${MAX_TOTAL_UNITS} units.`,
+    });
+  }
+
+  return rows;
+}
+
+function parseOptions(
+  raw: unknown,
+  issues: OptimizeRequestIssue[]
+): TieredOptimizeOptions {
+  if (raw === undefined) return {};
+
+  if (!isRecord(raw)) {
+    issues.push({ path: "options", message: "options must be an object." });
+    return {};
+  }
+
+  const options: TieredOptimizeOptions = {};
+
+  if (raw.mode !== undefined) {
+    if (MODES.includes(raw.mode as OptimizeMode)) {
+      options.mode = raw.mode as OptimizeMode;
+    } else {
+      issues.push({
+        path: "options.mode",
+        message: `mode must be one of: ${MODES.join(", ")}.`,
+      });
+    }
+  }
+
+  if (raw.objective !== undefined) {
+    if (OBJECTIVES.includes(raw.objective as TierObjective)) {
+      options.objective = raw.objective as TierObjective;
+    } else {
+      issues.push({
+        path: "options.objective",
+        message: `objective must be one of: ${OBJECTIVES.join(", ")}.`,
+      });
+    }
+  }
+
+  if (raw.secondaryObjective !== undefined) {
+    if (
+      SECONDARY_OBJECTIVES.includes(
+        raw.secondaryObjective as SecondaryObjective
+      )
+    ) {
+      options.secondaryObjective = raw.secondaryObjective as SecondaryObjective;
+    } else {
+      issues.push({
+        path: "options.secondaryObjective",
+        message: `secondaryObjective must be one of: ${SECONDARY_OBJECTIVES.join(
+          ", "
+        )}.`,
+      });
+    }
+  }
+
+  if (raw.timeBudgetMs !== undefined) {
+    if (
+      isPositiveNumber(raw.timeBudgetMs) &&
+      raw.timeBudgetMs <= MAX_API_TIME_BUDGET_MS
+    ) {
+      options.timeBudgetMs = raw.timeBudgetMs;
+    } else {
+      issues.push({
+        path: "options.timeBudgetMs",
+        message: `timeBudgetMs must be a positive number up to ${MAX_API_TIME_BUDGET_MS}.`,
+      });
+    }
+  }
+
+  if (raw.strategy !== undefined) {
+    if (STRATEGIES.includes(raw.strategy as SearchStrategy)) {
+      options.strategy = raw.strategy as SearchStrategy;
+    } else {
+      issues.push({
+        path: "options.strategy",
+        message: `strategy must be one of: ${STRATEGIES.join(", ")}.`,
+      });
+    }
+  }
+
+  if (raw.seed !== undefined) {
+    if (Number.isSafeInteger(raw.seed)) {
+      options.seed = raw.seed as number;
+    } else {
+      issues.push({
+        path: "options.seed",
+        message: "seed must be an integer.",
+      });
+    }
+  }
+
+  if (raw.searchSteps !== undefined) {
+    if (
+      typeof raw.searchSteps === "number" &&
+      Number.isInteger(raw.searchSteps) &&
+      raw.searchSteps >= 0 &&
+      raw.searchSteps <= MAX_API_SEARCH_STEPS
+    ) {
+      options.searchSteps = raw.searchSteps;
+    } else {
+      issues.push({
+        path: "options.searchSteps",
+        message: `searchSteps must be an integer from 0 to ${MAX_API_SEARCH_STEPS}.`,
+      });
+    }
+  }
+
+  if (raw.trace !== undefined) {
+    if (typeof raw.trace === "boolean") {
+      options.trace = raw.trace;
+    } else {
+      issues.push({
+        path: "options.trace",
+        message: "trace must be a boolean.",
+      });
+    }
+  }
+
+  if (raw.constraints !== undefined) {
+    options.constraints = parseConstraints(raw.constraints, issues);
+  }
+
+  return options;
+}
+
+function parseConstraints(
+  raw: unknown,
+  issues: OptimizeRequestIssue[]
+): GroupConstraints {
+  if (!isRecord(raw)) {
+    issues.push({
+      path: "options.constraints",
+      message: "constraints must be an object.",
+    });
+    return {};
+  }
+
+  const constraints: GroupConstraints = {};
+
+  for (const key of ["maxItemsPerGroup", "minItemsPerGroup"] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value === "number" && Number.isInteger(value) && value >= 1) {
+      constraints[key] = value;
+    } else {
+      issues.push({
+        path: `options.constraints.${key}`,
+        message: `${key} must be a positive integer.`,
+      });
+    }
+  }
+
+  if (
+    constraints.maxItemsPerGroup !== undefined &&
+    constraints.minItemsPerGroup !== undefined &&
+    constraints.minItemsPerGroup > constraints.maxItemsPerGroup
+  ) {
+    issues.push({
+      path: "options.constraints.minItemsPerGroup",
+      message: "minItemsPerGroup must not exceed maxItemsPerGroup.",
+    });
+  }
+
+  if (raw.keepSkuTogether !== undefined) {
+    if (typeof raw.keepSkuTogether === "boolean") {
+      constraints.keepSkuTogether = raw.keepSkuTogether;
+    } else {
+      issues.push({
+        path: "options.constraints.keepSkuTogether",
+        message: "keepSkuTogether must be a boolean.",
+      });
+    }
+  }
+
+  return constraints;
+}
@@ -0,0 +1,123 @@
+// optimizer-client.ts
+// optimizer.worker.ts を1回の計算ごとに起動し、Promise と cancel を返す。
+
+import type {
+  GiftTierSpec,
+  MultiStoreOptimizationResult,
+  OptimizeProgress,
+  StoreSpec,
+} from "~/lib/optimizer";
+import type {
+  OptimizerRequest,
+  OptimizerResponse,
+  WorkerOptimizeOptions,
+} from "~/lib/optimizer-protocol";
+import type {
+  CatalogEntry,
+  PlanGoal,
+  PurchasePlan,
+} from "~/lib/purchase-planner";
+
+export class OptimizationCancelledError extends Error {
+  constructor() {
+    super("計算已取消。");
+    this.name = "OptimizationCancelledError";
+  }
+}
+
+export type WorkerRun<T> = {
+  result: Promise<T>;
+  /** Worker を止めて result を OptimizationCancelledError で reject する */
+  cancel: () => void;
+};
+
+export type OptimizerRun = WorkerRun<MultiStoreOptimizationResult>;
+export type PlannerRun = WorkerRun<PurchasePlan>;
+
+let nextRequestId = 1;
+
+export function runOptimizerInWorker(
+  stores: StoreSpec[],
+  options: WorkerOptimizeOptions,
+  onProgress?: (progress: OptimizeProgress) => void
+): OptimizerRun {
+  return runInWorker(
+    (id) => ({ type: "optimize", id, stores, options }),
+    (message) => (message.type === "done" ? message.result : undefined),
+    onProgress
+  );
+}
+
+/** planPurchases を Worker で動かす。進捗は追加購入を1手決めるごとの景品数 */
+export function runPlannerInWorker(
+  catalog: CatalogEntry[],
+  tiers: GiftTierSpec[],
+  goal: PlanGoal,
+  options: WorkerOptimizeOptions = {},
+  onProgress?: (progress: OptimizeProgress) => void
+): PlannerRun {
+  return runInWorker(
+    (id) => ({ type: "plan", id, catalog, tiers, goal, options }),
+    (message) => (message.type === "planned" ? message.plan : undefined),
+    onProgress
+  );
+}
+
+/** request を送り、resultOf が値を返す応答で resolve する */
+function runInWorker<T>(
+  makeRequest: (id: number) => OptimizerRequest,
+  resultOf: (message: OptimizerResponse) => T | undefined,
+  onProgress?: (progress: OptimizeProgress) => void
+): WorkerRun<T> {
+  const worker = new Worker(new URL("./optimizer.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const id = nextRequestId++;
+
+  let settle: ((error?: Error) => void) | null = null;
+
+  const result: Promise<T> = new Promise((resolve, reject) => {
+    settle = (error) => {
+      settle = null;
+      worker.terminate();
+      if (error) reject(error);
+    };
+
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<OptimizerResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        switch (message.type) {
+          case "progress":
+            onProgress?.({
+              bestGifts: message.bestGifts,
+              elapsedMs: message.elapsedMs,
+            });
+            break;
+          case "error":
+            settle?.(new Error(message.message));
+            break;
+          default: {
+            const value = resultOf(message);
+            if (value === undefined) break;
+            settle?.();
+            resolve(value);
+          }
+        }
+      }
+    );
+
+    worker.addEventListener("error", (event) => {
+      settle?.(new Error(event.message || "計算時發生錯誤。"));
+    });
+  });
+
+  worker.postMessage(makeRequest(id));
+
+  return {
+    result,
+    cancel: () => settle?.(new OptimizationCancelledError()),
+  };
+}
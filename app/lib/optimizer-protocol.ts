@@ -0,0 +1,42 @@
+// optimizer-protocol.ts
+// メインスレッド ⇄ optimizer.worker.ts 間のメッセージ定義。
+// 関数は postMessage で渡せないので、onProgress は progress メッセージに置き換える。
+
+import type {
+  GiftTierSpec,
+  MultiStoreOptimizationResult,
+  StoreSpec,
+  TieredOptimizeOptions,
+} from "~/lib/optimizer";
+import type {
+  CatalogEntry,
+  PlanGoal,
+  PurchasePlan,
+} from "~/lib/purchase-planner";
+
+export type WorkerOptimizeOptions = Omit<TieredOptimizeOptions, "onProgress">;
+
+/** main → worker */
+export type OptimizerRequest =
+  | {
+      type: "optimize";
+      id: number;
+      stores: StoreSpec[];
+      options: WorkerOptimizeOptions;
+    }
+  | {
+      /** planPurchases（購入数を決めるだけ。グループは別の optimize で作る） */
+      type: "plan";
+      id: number;
+      catalog: CatalogEntry[];
+      tiers: GiftTierSpec[];
+      goal: PlanGoal;
+      options: WorkerOptimizeOptions;
+    };
+
+/** worker → main */
+export type OptimizerResponse =
+  | { type: "progress"; id: number; bestGifts: number; elapsedMs: number }
+  | { type: "done"; id: number; result: MultiStoreOptimizationResult }
+  | { type: "planned"; id: number; plan: PurchasePlan }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,48 @@
+// optimizer.worker.ts
+// optimizeStoreBundles / planPurchases を専用 Worker で動かす（メインスレッドを固めないため）。
+// キャンセルはメインスレッド側の worker.terminate() で行う。
+
+import type { OptimizeProgress } from "~/lib/optimizer";
+import { optimizeStoreBundles } from "~/lib/optimizer";
+import type {
+  OptimizerRequest,
+  OptimizerResponse,
+} from "~/lib/optimizer-protocol";
+import { planPurchases } from "~/lib/purchase-planner";
+
+const post = (message: OptimizerResponse) => self.postMessage(message);
+
+self.addEventListener("message", (event: MessageEvent<OptimizerRequest>) => {
+  const request = event.data;
+  const onProgress = (progress: OptimizeProgress) =>
+    post({ type: "progress", id: request.id, ...progress });
+
+  try {
+    switch (request.type) {
+      case "optimize": {
+        const result = optimizeStoreBundles(request.stores, {
+          ...request.options,
+          onProgress,
+        });
+        post({ type: "done", id: request.id, result });
+        break;
+      }
+      case "plan": {
+        const plan = planPurchases(
+          request.catalog,
+          request.tiers,
+          request.goal,
+          {
+            ...request.options,
+            onProgress,
+          }
+        );
+        post({ type: "planned", id: request.id, plan });
+        break;
+      }
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    post({ type: "error", id: request.id, message });
+  }
+});
@@ -0,0 +1,203 @@
+// bundles.ts
+// 1段（門檻1つ）の最適化 optimizeGiftBundles。
+// Greedy (best-fit) + light local improvements.
+
+import { isCurrentClock, now, withClock } from "~/lib/optimizer/clock";
+import { computeUpperBound, solveExact } from "~/lib/optimizer/exact";
+import { MAX_ITEMS, sanitizeItems } from "~/lib/optimizer/items";
+import {
+  buildInitialSolution,
+  performLocalImprovements,
+} from "~/lib/optimizer/local-moves";
+import { optimizeViaPatterns } from "~/lib/optimizer/patterns";
+import { finalizeResult } from "~/lib/optimizer/result";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import { buildGroupRules, expandResult, NO_RULES } from "~/lib/optimizer/rules";
+import { SEARCH_SHARE, searchBeyondLocalOptimum } from "~/lib/optimizer/search";
+import { applySecondaryObjective } from "~/lib/optimizer/secondary";
+import {
+  captureResultState,
+  captureState,
+  describeMove,
+} from "~/lib/optimizer/trace";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  ConstraintIssue,
+  OptimizeOptions,
+  SolverMove,
+} from "~/lib/optimizer/types";
+
+/**
+ * 3点以上の組み合わせOK / 同一商品複数OK（BundleItemを個数分渡す）
+ * 既定はブラウザで動かす前提の「強めの貪欲＋局所改善」（厳密解ではない）。
+ * mode: "exact" を指定すると、その解を初期解に分枝限定法で最適性の証明まで試みる。
+ */
+export function optimizeGiftBundles(
+  items: BundleItem[],
+  threshold: number,
+  options: OptimizeOptions = {}
+): BundleOptimizationResult {
+  if (options.clock && !isCurrentClock(options.clock)) {
+    return withClock(options.clock, () =>
+      optimizeGiftBundles(items, threshold, options)
+    );
+  }
+  const deadline = now() + (options.timeBudgetMs ?? 2000);
+  const sanitized = sanitizeItems(items);
+  const { rules, items: blocked } = buildGroupRules(
+    sanitized,
+    options.constraints
+  );
+  const [solved] = applySecondaryObjective(
+    blocked,
+    [solveGiftBundles(blocked, threshold, options, rules, deadline)],
+    options.secondaryObjective,
+    deadline,
+    rules
+  );
+  const result = expandResult(solved, rules);
+  if (rules === NO_RULES) return result;
+
+  // 比較用の制約なしの解は時間予算が残っているときだけ、残りの時間で解く
+  // （打ち切っても「少なくとも」作れる数なので比較には使える）
+  const freeGifts =
+    now() < deadline
+      ? solveGiftBundles(sanitized, threshold, {}, NO_RULES, deadline)
+          .totalGifts
+      : 0;
+  return {
+    ...result,
+    constraintIssues: withGiftsLost(rules.issues, result.totalGifts, freeGifts),
+  };
+}
+
+/** 制約なしの（貪欲）解のほうが多ければ giftsLost を足す */
+export function withGiftsLost(
+  issues: ConstraintIssue[],
+  withConstraints: number,
+  withoutConstraints: number
+): ConstraintIssue[] {
+  if (withoutConstraints <= withConstraints) return issues;
+  return [
+    ...issues,
+    { kind: "giftsLost", withConstraints, withoutConstraints },
+  ];
+}
+
+/**
+ * optimizeGiftBundles の本体。items は sanitize 済み・ブロック化済み、結果もブロック単位。
+ * 時間予算は初期解から exact までで共有する（呼び出し側の deadline があればそれに合わせる）。
+ */
+export function solveGiftBundles(
+  sanitized: BundleItem[],
+  threshold: number,
+  options: OptimizeOptions,
+  rules: GroupRules,
+  deadline = now() + (options.timeBudgetMs ?? 2000)
+): BundleOptimizationResult {
+  if (!sanitized.length || threshold <= 0) {
+    const empty = finalizeResult(sanitized, [], threshold, true, 0);
+    return options.trace ? { ...empty, trace: [] } : empty;
+  }
+
+  // パターン解法は点数・ブロックを扱えないので、制約つきは点数によらず1点ずつ解く
+  if (
+    rules === NO_RULES &&
+    sanitized.length > (options.unitItemLimit ?? MAX_ITEMS)
+  ) {
+    return optimizeViaPatterns(sanitized, threshold, {
+      ...options,
+      timeBudgetMs: Math.max(0, deadline - now()),
+    });
+  }
+
+  // 1) 初期解：Largest-first + Best-Fit（未達箱のみを対象にする）
+  const { completed, pool } = buildInitialSolution(
+    sanitized,
+    threshold,
+    rules,
+    false,
+    deadline
+  );
+  const trace: SolverMove[] | undefined = options.trace ? [] : undefined;
+  trace?.push(
+    describeMove(
+      "buildInitialSolution",
+      captureState([], sanitized),
+      captureState(completed, pool)
+    )
+  );
+
+  // 2) 局所改善：poolから追加グループ生成 / 完成グループから寄付して再挑戦 / 直接寄付で1手完成
+  performLocalImprovements(
+    completed,
+    pool,
+    threshold,
+    sanitized.length,
+    options,
+    rules,
+    deadline,
+    trace
+  );
+  const localState = trace && captureState(completed, pool);
+
+  // 3) strategy 指定時：局所解の先を乱数つきで探す（exact と併用なら予算の一部だけ使う）
+  const initialUpperBound = computeUpperBound(sanitized, threshold);
+  const searchStartedAt = now();
+  let groups = searchBeyondLocalOptimum(
+    sanitized,
+    completed,
+    threshold,
+    initialUpperBound,
+    options,
+    rules,
+    options.mode === "exact"
+      ? searchStartedAt + (deadline - searchStartedAt) * SEARCH_SHARE
+      : deadline
+  );
+  let optimal = groups.length >= initialUpperBound;
+  if (localState && groups !== completed) {
+    trace!.push(
+      describeMove("search", localState, captureResultState(sanitized, groups))
+    );
+  }
+
+  // 4) exact指定時：ここまでの解を下界にして分枝限定法で上積み／最適性の証明を試みる
+  if (options.mode === "exact" && !optimal) {
+    const exact = solveExact(
+      sanitized,
+      threshold,
+      groups.length,
+      {
+        ...options,
+        timeBudgetMs: Math.max(0, deadline - now()),
+      },
+      rules
+    );
+    if (exact.groups) {
+      trace?.push(
+        describeMove(
+          "solveExact",
+          captureResultState(sanitized, groups),
+          captureResultState(sanitized, exact.groups)
+        )
+      );
+      groups = exact.groups;
+    }
+    optimal = exact.proven;
+  }
+
+  // 証明できたなら上界は見つけた解そのもの
+  const upperBound = optimal ? groups.length : initialUpperBound;
+
+  // 5) 出力整形（position順で見やすく）
+  const result = finalizeResult(
+    sanitized,
+    groups,
+    threshold,
+    optimal,
+    upperBound
+  );
+  return trace ? { ...result, trace } : result;
+}
@@ -0,0 +1,34 @@
+// clock.ts
+// deadline・経過時間を測る時計。options.clock を渡した呼び出しの間だけ差し替える
+// （最適化は同期処理なので、別の呼び出しと混ざることはない）。
+// 公開関数は先頭で「clock が指定されていて、まだ差し替えていなければ withClock の中で呼び直す」。
+
+let current: () => number = () => Date.now();
+
+export function now(): number {
+  return current();
+}
+
+export function isCurrentClock(clock: () => number): boolean {
+  return current === clock;
+}
+
+export function withClock<T>(clock: () => number, solve: () => T): T {
+  const saved = current;
+  current = clock;
+  try {
+    return solve();
+  } finally {
+    current = saved;
+  }
+}
+
+/**
+ * 呼ばれるたびに msPerCall ずつ進む時計（options.clock 用）。
+ * 打ち切りの判定の回数を時間の代わりに数えるので、実際の時計が進まない環境でも
+ * timeBudgetMs で仕事量を抑えられ、同じ入力なら結果も同じになる。
+ */
+export function createStepClock(msPerCall: number): () => number {
+  let elapsed = 0;
+  return () => (elapsed += msPerCall);
+}
@@ -0,0 +1,258 @@
+// exact.ts
+// 上界の計算と、mode: "exact" の分枝限定法。
+
+import { now } from "~/lib/optimizer/clock";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import { NO_RULES, sizeOf } from "~/lib/optimizer/rules";
+import type {
+  BundleItem,
+  OptimizeOptions,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/**
+ * 景品数の上界（bin covering の緩和）。
+ * - threshold以上の単品：単品で1グループ。他と組ませても増えないので個数そのまま
+ * - threshold未満：合計額 / threshold と、「1グループに最低何点要るか」で割った個数の小さい方
+ *   （最低点数 = 大きい順に積んで初めて threshold に届く点数）
+ */
+export function computeUpperBound(
+  items: BundleItem[],
+  threshold: number
+): number {
+  if (threshold <= 0) return 0;
+
+  const amounts = items
+    .map((it) => Math.floor(it.amount))
+    .filter((a) => Number.isFinite(a) && a > 0)
+    .sort((a, b) => b - a);
+
+  return boundFromCounts(
+    amounts,
+    amounts.map(() => 1),
+    threshold
+  );
+}
+
+/** amounts は降順前提 */
+export function boundFromCounts(
+  amounts: number[],
+  counts: number[],
+  threshold: number
+): number {
+  let bigCount = 0;
+  let smallCount = 0;
+  let smallSum = 0;
+  let minPerGroup = 0; // threshold未満のみで届くのに必要な最少点数
+  let reach = 0;
+
+  for (let i = 0; i < amounts.length; i++) {
+    const c = counts[i];
+    if (!c) continue;
+    if (amounts[i] >= threshold) {
+      bigCount += c;
+      continue;
+    }
+
+    smallCount += c;
+    smallSum += amounts[i] * c;
+
+    if (reach < threshold) {
+      const need = Math.ceil((threshold - reach) / amounts[i]);
+      const take = Math.min(c, need);
+      minPerGroup += take;
+      reach += amounts[i] * take;
+    }
+  }
+
+  // 小さいもの全部でも届かない
+  if (reach < threshold) return bigCount;
+
+  return (
+    bigCount +
+    Math.min(
+      Math.floor(smallSum / threshold),
+      Math.floor(smallCount / minPerGroup)
+    )
+  );
+}
+
+/**
+ * 同額アイテムを束ねる（amounts は降順、buckets[i] は position 昇順）。
+ * 制約つきでは点数・exclusiveKey の違うブロックを区別するため、同額でもそれぞれ別の列にする。
+ */
+export function groupByAmount(
+  items: BundleItem[],
+  rules: GroupRules = NO_RULES
+): {
+  amounts: number[];
+  sizes: number[];
+  keys: (string | undefined)[];
+  buckets: BundleItem[][];
+} {
+  const byKey = new Map<string, BundleItem[]>();
+  for (const it of items) {
+    const key = `${it.amount}:${sizeOf(it, rules)}:${it.exclusiveKey ?? ""}`;
+    const list = byKey.get(key);
+    if (list) list.push(it);
+    else byKey.set(key, [it]);
+  }
+  const buckets = [...byKey.values()]
+    .map((list) => list.sort((x, y) => x.position - y.position))
+    .sort((a, b) => b[0].amount - a[0].amount);
+  return {
+    amounts: buckets.map((b) => b[0].amount),
+    sizes: buckets.map((b) => sizeOf(b[0], rules)),
+    keys: buckets.map((b) => b[0].exclusiveKey),
+    buckets,
+  };
+}
+
+/** amounts の index 列で表したグループを、実アイテムに割り当てる（同額は position 順） */
+export function binsToGroups(bins: number[][], buckets: BundleItem[][]) {
+  const queues = buckets.map((b) => [...b]);
+  return bins.map((bin) => {
+    const groupItems = bin.map((idx) => queues[idx].shift()!);
+    return {
+      total: groupItems.reduce((s, it) => s + it.amount, 0),
+      items: groupItems,
+    };
+  });
+}
+
+export function solveExact(
+  items: BundleItem[],
+  threshold: number,
+  lowerBound: number,
+  options: OptimizeOptions,
+  rules: GroupRules
+): { groups: WorkingGroup[] | null; proven: boolean } {
+  const { amounts, sizes, keys, buckets } = groupByAmount(items, rules);
+  const { bins, proven } = searchExactBins(
+    amounts,
+    buckets.map((b) => b.length),
+    threshold,
+    lowerBound,
+    options,
+    { sizes, keys, minItems: rules.minItems, maxItems: rules.maxItems }
+  );
+  return { groups: bins && binsToGroups(bins, buckets), proven };
+}
+
+/**
+ * 分枝限定法（bin covering）。同額は個数でまとめて対称な枝を減らす。
+ * - 残りの最大額アイテムを「次のグループに入れる」か「使わない」かで分岐
+ * - 入れる場合は、最後（最小）の1点で初めて threshold に届く組み合わせだけを列挙
+ * - 上界が現在の最良以下なら枝刈り、同じ残り構成を同数以下で再訪したら枝刈り
+ * amounts は降順、counts は各額の個数（破壊しない）。
+ * limits を渡すと、各列の点数 sizes で数えたグループの点数を [minItems, maxItems] に収め、
+ * 別々の keys（exclusiveKey）の列を同じグループに入れない。
+ * 最良解が lowerBound を超えなかった場合 bins は null（呼び出し側の解をそのまま使う）。
+ */
+export function searchExactBins(
+  amounts: number[],
+  initialCounts: number[],
+  threshold: number,
+  lowerBound: number,
+  options: OptimizeOptions,
+  limits?: {
+    sizes: number[];
+    keys: (string | undefined)[];
+    minItems: number;
+    maxItems: number;
+  }
+): { bins: number[][] | null; proven: boolean } {
+  const sizeAt = (idx: number) => limits?.sizes[idx] ?? 1;
+  const keyAt = (idx: number) => limits?.keys[idx];
+  const minItems = limits?.minItems ?? 1;
+  const maxItems = limits?.maxItems ?? Number.MAX_SAFE_INTEGER;
+  const nodeLimit = options.nodeLimit ?? 1_000_000;
+  const timeBudgetMs = options.timeBudgetMs ?? 2000;
+  const memoCap = 100_000; // メモの肥大化防止
+  const startedAt = now();
+  const deadline = startedAt + timeBudgetMs;
+  const counts = [...initialCounts];
+
+  let best = lowerBound;
+  let bestBins = null as number[][] | null;
+  let nodes = 0;
+  let aborted = false;
+
+  const bins: number[][] = []; // 各グループを amounts の index 列で持つ
+  const memo = new Map<string, number>();
+
+  const search = (from: number) => {
+    if (aborted) return;
+    if (++nodes > nodeLimit || ((nodes & 1023) === 0 && now() > deadline)) {
+      aborted = true;
+      return;
+    }
+
+    if (bins.length > best) {
+      best = bins.length;
+      bestBins = bins.map((b) => [...b]);
+      options.onProgress?.({
+        bestGifts: best,
+        elapsedMs: now() - startedAt,
+      });
+    }
+
+    let head = from;
+    while (head < amounts.length && !counts[head]) head++;
+    if (head >= amounts.length) return;
+    if (bins.length + boundFromCounts(amounts, counts, threshold) <= best)
+      return;
+
+    const key = counts.join(",");
+    const seen = memo.get(key);
+    if (seen !== undefined && seen >= bins.length) return;
+    if (seen !== undefined || memo.size < memoCap) memo.set(key, bins.length);
+
+    // 分岐1：最大額アイテムを核に、threshold にちょうど届く組み合わせを列挙
+    counts[head]--;
+    const bin = [head];
+    const fill = (
+      idx: number,
+      total: number,
+      size: number,
+      key: string | undefined
+    ) => {
+      for (let j = idx; j < amounts.length && !aborted; j++) {
+        if (!counts[j]) continue;
+        const nextSize = size + sizeAt(j);
+        if (nextSize > maxItems) continue;
+        if (key && keyAt(j) && keyAt(j) !== key) continue;
+        counts[j]--;
+        bin.push(j);
+        const next = total + amounts[j];
+        if (next >= threshold && nextSize >= minItems) {
+          bins.push([...bin]);
+          search(head);
+          bins.pop();
+        } else {
+          fill(j, next, nextSize, key ?? keyAt(j));
+        }
+        bin.pop();
+        counts[j]++;
+      }
+    };
+
+    if (sizeAt(head) > maxItems) {
+      // 単独で点数オーバーのブロックは使えない
+    } else if (amounts[head] >= threshold && sizeAt(head) >= minItems) {
+      bins.push([head]);
+      search(head);
+      bins.pop();
+    } else {
+      fill(head, amounts[head], sizeAt(head), keyAt(head));
+    }
+
+    // 分岐2：最大額アイテムを使わない
+    if (!aborted) search(head);
+    counts[head]++;
+  };
+
+  search(0);
+
+  return { bins: bestBins, proven: !aborted };
+}
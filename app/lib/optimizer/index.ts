@@ -0,0 +1,52 @@
+// index.ts
+// 贈品の組み合わせ最適化の公開窓口。画面・Worker・API はここから import する。
+// - 3点以上OK
+// - 同一商品（同額）を複数個扱うのは「別BundleItemとして渡す」ことで対応
+//   例: 500円を4つ -> [{amount:500,pos:1},{amount:500,pos:2},{amount:500,pos:3},{amount:500,pos:4}]
+// - 大口注文（MAX_ITEMS超）は同額をまとめたパターン解法（optimizePatternBundles）で解く
+
+export { optimizeGiftBundles } from "~/lib/optimizer/bundles";
+export { createStepClock } from "~/lib/optimizer/clock";
+export { computeUpperBound } from "~/lib/optimizer/exact";
+export {
+  expandByQuantity,
+  MAX_ITEMS,
+  MAX_TOTAL_UNITS,
+} from "~/lib/optimizer/items";
+export { optimizePatternBundles } from "~/lib/optimizer/patterns";
+export { defaultSearchSteps } from "~/lib/optimizer/search";
+export {
+  optimizeStoreBundles,
+  optimizeTieredBundles,
+} from "~/lib/optimizer/tiered";
+export { findRemovableItems, suggestTopUp } from "~/lib/optimizer/top-up";
+export type {
+  BundleGroup,
+  BundleItem,
+  BundleItemMeta,
+  BundleOptimizationResult,
+  BundlePattern,
+  ConstraintIssue,
+  GiftTierSpec,
+  GroupConstraints,
+  MultiStoreOptimizationResult,
+  OptimizeMode,
+  OptimizeOptions,
+  OptimizeProgress,
+  PatternOptimizationResult,
+  QuantityRow,
+  RemovableItems,
+  ResultViolation,
+  SearchStrategy,
+  SecondaryObjective,
+  SolverMove,
+  SolverMoveKind,
+  SolverMoveState,
+  StoreSpec,
+  TieredOptimizationResult,
+  TieredOptimizeOptions,
+  TierObjective,
+  TopUpCandidate,
+  TopUpSuggestion,
+} from "~/lib/optimizer/types";
+export { validateOptimizationResult } from "~/lib/optimizer/validate";
@@ -0,0 +1,45 @@
+// items.ts
+// 入力アイテムの上限・整形と、数量つき入力の展開。
+
+import type { BundleItem } from "~/lib/optimizer/types";
+
+/** 1点ずつ展開して局所改善する上限。これを超えるとパターン解法に切り替える */
+export const MAX_ITEMS = 100;
+/** 画面・APIで受け付ける合計点数の上限 */
+export const MAX_TOTAL_UNITS = 5000;
+
+export function sanitizeItems(items: BundleItem[]): BundleItem[] {
+  return items
+    .map((item, index) => ({
+      ...item,
+      amount: Math.floor(item.amount),
+      position: Number.isFinite(item.position) ? item.position : index + 1,
+    }))
+    .filter((it) => Number.isFinite(it.amount) && it.amount > 0);
+}
+
+/** 同一商品を quantity で受けたい場合の補助（meta / groupKey / exclusiveKey は展開した各アイテムに付ける） */
+export function expandByQuantity(
+  rows: ({ amount: number; quantity: number } & Pick<
+    BundleItem,
+    "meta" | "groupKey" | "exclusiveKey"
+  >)[],
+  startPosition = 1
+): BundleItem[] {
+  const out: BundleItem[] = [];
+  let pos = startPosition;
+  for (const r of rows) {
+    const amt = Math.floor(r.amount);
+    const q = Math.floor(r.quantity);
+    if (!Number.isFinite(amt) || amt <= 0) continue;
+    if (!Number.isFinite(q) || q <= 0) continue;
+    const extras: Pick<BundleItem, "meta" | "groupKey" | "exclusiveKey"> = {};
+    if (r.meta) extras.meta = r.meta;
+    if (r.groupKey) extras.groupKey = r.groupKey;
+    if (r.exclusiveKey) extras.exclusiveKey = r.exclusiveKey;
+    for (let i = 0; i < q; i++) {
+      out.push({ amount: amt, position: pos++, ...extras });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,644 @@
+// local-moves.ts
+// 初期解（Largest-first + Best-Fit）と局所改善の手（pool からの新規グループ・寄付・swap・交換）。
+
+import { now } from "~/lib/optimizer/clock";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import { canJoin, countOf, isComplete, sizeOf } from "~/lib/optimizer/rules";
+import { captureState, describeMove } from "~/lib/optimizer/trace";
+import type {
+  BundleItem,
+  OptimizeOptions,
+  SolverMove,
+  SolverMoveKind,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/**
+ * 初期解：大きい順に、未達グループへ best-fit で詰め、達したら完成へ移動。
+ * presorted なら items の順のまま詰める（restarts が並びを揺らして渡す）。
+ * deadline を過ぎたら、残りは最後に作った未達グループへ順に詰めるだけにする（未達グループの走査を省く）。
+ */
+export function buildInitialSolution(
+  items: BundleItem[],
+  threshold: number,
+  rules: GroupRules,
+  presorted = false,
+  deadline = Infinity
+): {
+  completed: WorkingGroup[];
+  pool: BundleItem[];
+} {
+  const sorted = presorted
+    ? items
+    : [...items].sort((a, b) => b.amount - a.amount);
+
+  const completed: WorkingGroup[] = [];
+  const open: WorkingGroup[] = []; // 未達のみ持つ
+  const unusable: BundleItem[] = []; // 単独で maxItems を超えるブロック
+  let late = false;
+
+  for (let n = 0; n < sorted.length; n++) {
+    const item = sorted[n];
+    const size = sizeOf(item, rules);
+    if (size > rules.maxItems) {
+      unusable.push(item);
+      continue;
+    }
+    if (!late && (n & 63) === 0 && now() > deadline) late = true;
+
+    let bestCompleteIdx = -1;
+    let bestOvershoot = Infinity;
+    let bestIncompleteIdx = -1;
+    let bestShortfall = Infinity;
+
+    const from = late ? Math.max(0, open.length - 1) : 0;
+    for (let i = from; i < open.length; i++) {
+      const g = open[i];
+      const newTotal = g.total + item.amount;
+      const newCount = countOf(g.items, rules) + size;
+      if (newCount > rules.maxItems || !canJoin(g.items, item)) continue;
+
+      if (isComplete(newTotal, newCount, threshold, rules)) {
+        const overshoot = newTotal - threshold;
+        if (overshoot < bestOvershoot) {
+          bestOvershoot = overshoot;
+          bestCompleteIdx = i;
+        }
+      } else {
+        const shortfall = threshold - newTotal;
+        if (shortfall < bestShortfall) {
+          bestShortfall = shortfall;
+          bestIncompleteIdx = i;
+        }
+      }
+    }
+
+    const targetIdx =
+      bestCompleteIdx !== -1 ? bestCompleteIdx : bestIncompleteIdx;
+
+    if (targetIdx === -1) {
+      // 新しい未達グループ
+      if (isComplete(item.amount, size, threshold, rules)) {
+        completed.push({ total: item.amount, items: [item] });
+      } else {
+        open.push({ total: item.amount, items: [item] });
+      }
+      continue;
+    }
+
+    const g = open[targetIdx];
+    g.items.push(item);
+    g.total += item.amount;
+
+    if (isComplete(g.total, countOf(g.items, rules), threshold, rules)) {
+      // 未達 → 完成へ移動
+      completed.push(g);
+      open.splice(targetIdx, 1);
+    }
+  }
+
+  // 未達グループは全部バラして pool に（再構成しやすいように）
+  const pool: BundleItem[] = [...open.flatMap((g) => g.items), ...unusable];
+  return { completed, pool };
+}
+
+export function performLocalImprovements(
+  completed: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  itemCount: number,
+  options: OptimizeOptions,
+  rules: GroupRules,
+  deadline = Infinity,
+  trace?: SolverMove[]
+) {
+  const cap = 3000; // 無限に回さないための安全上限
+  const maxImproveIters =
+    options.maxImproveIters ?? Math.min(cap, Math.max(1, itemCount * 4));
+  const resortEvery = options.resortEvery ?? 6;
+  const enableDirectDonate = options.enableDirectDonate ?? true;
+
+  // poolを降順で扱う（寄付で乱れるのでフラグ管理）
+  let poolDirty = true;
+  let iterSinceSort = 0;
+
+  const ensurePoolSorted = () => {
+    if (poolDirty || iterSinceSort >= resortEvery) {
+      pool.sort((a, b) => b.amount - a.amount);
+      poolDirty = false;
+      iterSinceSort = 0;
+    }
+  };
+
+  // trace 指定時は、解を変えた手ごとに前後の状態を記録する
+  const step = (kind: SolverMoveKind, move: () => boolean) => {
+    if (!trace) return move();
+    const before = captureState(completed, pool);
+    const changed = move();
+    if (changed) {
+      trace.push(describeMove(kind, before, captureState(completed, pool)));
+    }
+    return changed;
+  };
+
+  for (let iter = 0; iter < maxImproveIters; iter++) {
+    if (!pool.length || now() > deadline) break;
+
+    ensurePoolSorted();
+    iterSinceSort++;
+
+    // poolだけで新しい完成グループを作る
+    const made = step("createGroupFromPool", () => {
+      const group = createGroupFromPool(pool, threshold, rules);
+      if (group) completed.push(group);
+      return group !== null;
+    });
+    if (made) {
+      poolDirty = true; // poolが減ったのでsort再評価
+      continue;
+    }
+
+    // 完成グループから「抜いても完成」なアイテムを1つ寄付して pool を増やす
+    const donated = step("donateOneItem", () =>
+      donateOneItem(completed, pool, threshold, rules)
+    );
+    if (donated) {
+      poolDirty = true;
+      continue;
+    }
+
+    // 完成グループと pool の swap で「大きいアイテム」を pool に戻す
+    const swapped = step("swapItemBetweenGroupAndPool", () =>
+      swapItemBetweenGroupAndPool(completed, pool, threshold, deadline, rules)
+    );
+    if (swapped) {
+      poolDirty = true;
+      continue;
+    }
+
+    // poolの「あと少し」を、完成グループからの直接寄付で一手完成
+    if (enableDirectDonate) {
+      ensurePoolSorted();
+      const direct = step("directDonateToComplete", () =>
+        directDonateToComplete(completed, pool, threshold, rules)
+      );
+      if (direct) {
+        poolDirty = true;
+        continue;
+      }
+    }
+
+    // これ以上伸びない
+    break;
+  }
+}
+
+/**
+ * poolから「大きいものを核にして、小さいもので穴埋め」して threshold 到達を狙う。
+ * 成功したら pool から選ばれたアイテムを除去してグループを返す。
+ */
+function createGroupFromPool(
+  pool: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+): WorkingGroup | null {
+  if (!pool.length) return null;
+
+  // pool は降順想定
+  const used = new Set<number>(); // positionで識別（position一意推奨）
+  const items: BundleItem[] = [];
+  let total = 0;
+  let count = 0;
+
+  let left = 0; // 大きい方
+  let right = pool.length - 1; // 小さい方
+
+  const take = (it: BundleItem, size: number) => {
+    used.add(it.position);
+    items.push(it);
+    total += it.amount;
+    count += size;
+  };
+  const complete = () => isComplete(total, count, threshold, rules);
+
+  // まず大きいのを1つずつ入れて、足りなければ小さいので埋める
+  while (!complete() && left <= right) {
+    const core = pool[left++];
+    if (used.has(core.position)) continue;
+    const coreSize = sizeOf(core, rules);
+    if (count + coreSize > rules.maxItems || !canJoin(items, core)) continue;
+    take(core, coreSize);
+
+    while (!complete() && right >= left) {
+      const filler = pool[right];
+      if (used.has(filler.position) || !canJoin(items, filler)) {
+        right--;
+        continue;
+      }
+      const fillerSize = sizeOf(filler, rules);
+      if (count + fillerSize >= rules.maxItems) {
+        // 最後の枠：最小のものではなく「それで届く最小のもの」を選ぶ
+        const last = findSmallestCompleting(
+          pool,
+          left,
+          right,
+          used,
+          items,
+          total,
+          count,
+          threshold,
+          rules
+        );
+        if (last) take(last, sizeOf(last, rules));
+        break;
+      }
+      right--;
+      take(filler, fillerSize);
+    }
+  }
+
+  if (!complete()) return null;
+
+  // poolから使用分を除去
+  const remaining = pool.filter((it) => !used.has(it.position));
+  pool.splice(0, pool.length, ...remaining);
+
+  return { total, items };
+}
+
+/** pool[from..to]（降順）から、足せばグループが完成する最小のアイテムを探す */
+function findSmallestCompleting(
+  pool: BundleItem[],
+  from: number,
+  to: number,
+  used: Set<number>,
+  items: BundleItem[],
+  total: number,
+  count: number,
+  threshold: number,
+  rules: GroupRules
+): BundleItem | null {
+  for (let j = to; j >= from; j--) {
+    const it = pool[j];
+    if (used.has(it.position) || !canJoin(items, it)) continue;
+    const nextCount = count + sizeOf(it, rules);
+    if (nextCount > rules.maxItems) continue;
+    if (isComplete(total + it.amount, nextCount, threshold, rules)) return it;
+  }
+  return null;
+}
+
+/**
+ * 完成グループから「抜いても threshold を割らない」アイテムを1つ抜いて pool に戻す。
+ * surplus（余剰）が大きいグループから優先。
+ */
+function donateOneItem(
+  completed: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+): boolean {
+  const donors = completed
+    .map((g, idx) => ({ idx, g, surplus: g.total - threshold }))
+    .filter((d) => d.surplus > 0)
+    .sort((a, b) => b.surplus - a.surplus);
+
+  for (const d of donors) {
+    const count = countOf(d.g.items, rules);
+    // 小さいものから試す（抜きやすい）
+    const removable = [...d.g.items]
+      .sort((a, b) => a.amount - b.amount)
+      .find(
+        (it) =>
+          d.g.total - it.amount >= threshold &&
+          count - sizeOf(it, rules) >= rules.minItems
+      );
+
+    if (!removable) continue;
+
+    const at = d.g.items.findIndex((it) => it.position === removable.position);
+    if (at < 0) continue;
+
+    d.g.items.splice(at, 1);
+    d.g.total -= removable.amount;
+    pool.push(removable);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * pool内の「あと少し足りない」構成を作っておき、その不足分を
+ * 完成グループの余剰から1アイテムで埋めて「1手で」新規完成を作る改善。
+ *
+ * 例: poolで 1800（あと200）まで作れるなら、余剰を持つ完成グループから200以上の抜けるアイテムを探す。
+ */
+function directDonateToComplete(
+  completed: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+): boolean {
+  if (!pool.length) return false;
+
+  // まず pool から「threshold未満で最大」に近い構成を軽く作る（完全探索はしない）
+  const probe = createNearGroupFromPool(pool, threshold, rules);
+  if (!probe) return false;
+
+  const { used, items, total, count, shortfall } = probe;
+  if (shortfall <= 0) return false;
+
+  // 寄付できるアイテムを探す：抜いても完成、かつ amount >= shortfall
+  const donors = completed
+    .map((g) => ({ g, surplus: g.total - threshold }))
+    .filter((d) => d.surplus > 0)
+    .sort((a, b) => b.surplus - a.surplus);
+
+  for (const d of donors) {
+    const donorCount = countOf(d.g.items, rules);
+    // なるべく小さい寄付で埋めたい
+    const candidate = [...d.g.items]
+      .sort((a, b) => a.amount - b.amount)
+      .find((it) => {
+        const size = sizeOf(it, rules);
+        return (
+          it.amount >= shortfall &&
+          d.g.total - it.amount >= threshold &&
+          canJoin(items, it) &&
+          donorCount - size >= rules.minItems &&
+          count + size >= rules.minItems &&
+          count + size <= rules.maxItems
+        );
+      });
+
+    if (!candidate) continue;
+
+    // donorから外す
+    const at = d.g.items.findIndex((it) => it.position === candidate.position);
+    if (at < 0) continue;
+
+    d.g.items.splice(at, 1);
+    d.g.total -= candidate.amount;
+
+    // poolから near 構成の使用分を除去し、candidate を足して新規完成を作る
+    const remaining = pool.filter((it) => !used.has(it.position));
+    pool.splice(0, pool.length, ...remaining);
+
+    const newItems = [...items, candidate];
+    const newTotal = total + candidate.amount;
+
+    // 念のため
+    if (isComplete(newTotal, countOf(newItems, rules), threshold, rules)) {
+      completed.push({ total: newTotal, items: newItems });
+      return true;
+    }
+
+    // 失敗したらロールバック（基本ここには来ない）
+    pool.push(...items);
+    d.g.items.push(candidate);
+    d.g.total += candidate.amount;
+    return false;
+  }
+
+  return false;
+}
+
+/**
+ * poolから「threshold未満でできるだけ大きい」近似構成を作る。
+ * 返す used/items は pool からまだ除去しない（directDonate成功時にまとめて除去する）。
+ */
+function createNearGroupFromPool(
+  pool: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+): {
+  used: Set<number>;
+  items: BundleItem[];
+  total: number;
+  count: number;
+  shortfall: number;
+} | null {
+  // pool は降順想定
+  const used = new Set<number>();
+  const items: BundleItem[] = [];
+  let total = 0;
+  let count = 0;
+  // 寄付で1点足す枠を残しておく
+  const room = rules.maxItems - 1;
+
+  let left = 0;
+  let right = pool.length - 1;
+
+  // 「大→小」で、超えない範囲でなるべく積む
+  while (left <= right) {
+    const pick = pool[left++];
+    if (used.has(pick.position)) continue;
+
+    const pickSize = sizeOf(pick, rules);
+    if (
+      total + pick.amount < threshold &&
+      count + pickSize <= room &&
+      canJoin(items, pick)
+    ) {
+      used.add(pick.position);
+      items.push(pick);
+      total += pick.amount;
+      count += pickSize;
+    }
+
+    // 足りない分が小さいものでも埋まりそうなら小を詰める（超えない範囲で）
+    while (right >= left) {
+      const filler = pool[right];
+      if (used.has(filler.position) || !canJoin(items, filler)) {
+        right--;
+        continue;
+      }
+      const fillerSize = sizeOf(filler, rules);
+      if (total + filler.amount < threshold && count + fillerSize <= room) {
+        used.add(filler.position);
+        items.push(filler);
+        total += filler.amount;
+        count += fillerSize;
+        right--;
+      } else {
+        break;
+      }
+    }
+
+    if (total >= threshold - 1) break; // ほぼ届いてるなら打ち切り
+  }
+
+  if (!items.length) return null;
+
+  return { used, items, total, count, shortfall: threshold - total };
+}
+
+/** 大きい順に「抜いても threshold を割らない」アイテムを pool に戻す */
+export function trimGroupInto(
+  group: WorkingGroup,
+  pool: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+): boolean {
+  let trimmed = false;
+  let count = countOf(group.items, rules);
+  for (const it of [...group.items].sort((a, b) => b.amount - a.amount)) {
+    const size = sizeOf(it, rules);
+    if (group.total - it.amount < threshold) continue;
+    if (count - size < rules.minItems) continue;
+    group.items.splice(group.items.indexOf(it), 1);
+    group.total -= it.amount;
+    count -= size;
+    pool.push(it);
+    trimmed = true;
+  }
+  return trimmed;
+}
+
+/**
+ * 2グループ間で1点ずつ交換して、どちらかのグループから1点抜けるようになる手を探す。
+ * 例: [1400,1400] と [700,700,600] → [1400,700] と [1400,600](+700を抜ける)
+ */
+export function exchangeBetweenGroups(
+  groups: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  deadline: number,
+  rules: GroupRules
+): boolean {
+  const fits = (count: number) =>
+    count >= rules.minItems && count <= rules.maxItems;
+
+  // 1回でグループ数の2乗の組を調べるので、調べたアイテムの組 1024 ごとに deadline を見る
+  let tried = 0;
+  for (const g1 of groups) {
+    for (const g2 of groups) {
+      if (g1 === g2) continue;
+      const count1 = countOf(g1.items, rules);
+      const count2 = countOf(g2.items, rules);
+
+      for (const x of g1.items) {
+        for (const y of g2.items) {
+          if ((++tried & 1023) === 0 && now() >= deadline) return false;
+          const diff = x.amount - y.amount;
+          if (diff <= 0) continue;
+          const sizeDiff = sizeOf(x, rules) - sizeOf(y, rules);
+          if (!fits(count1 - sizeDiff) || !fits(count2 + sizeDiff)) continue;
+          if (
+            !canJoin(
+              g1.items.filter((it) => it !== x),
+              y
+            ) ||
+            !canJoin(
+              g2.items.filter((it) => it !== y),
+              x
+            )
+          ) {
+            continue;
+          }
+          // 交換後: g1 は diff 減る、g2 は diff 増える
+          const total1 = g1.total - diff;
+          const total2 = g2.total + diff;
+          if (total1 < threshold) continue;
+
+          const surplus2 = total2 - threshold;
+          const removable = g2.items.some(
+            (it) => it !== y && it.amount <= surplus2
+          );
+          if (!removable && x.amount > surplus2) continue;
+
+          g1.items.splice(g1.items.indexOf(x), 1, y);
+          g2.items.splice(g2.items.indexOf(y), 1, x);
+          g1.total = total1;
+          g2.total = total2;
+          return trimGroupInto(g2, pool, threshold, rules);
+        }
+      }
+    }
+  }
+
+  return false;
+}
+
+export function swapItemBetweenGroupAndPool(
+  completed: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  deadline: number,
+  rules: GroupRules
+): boolean {
+  if (!pool.length || !completed.length) return false;
+
+  // pool は小さいものから使いたい（=グループの超過を減らしたい）
+  const poolAsc = [...pool].sort((a, b) => a.amount - b.amount);
+
+  // 超過が大きい完成グループから試す
+  const donors = completed
+    .map((g, idx) => ({ g, idx, surplus: g.total - threshold }))
+    .filter((d) => d.surplus > 0)
+    .sort((a, b) => b.surplus - a.surplus);
+
+  // 1回で（全グループの点数 × pool）を調べうるので、調べた pool の点数 1024 ごとに deadline を見る
+  let tried = 0;
+  for (const d of donors) {
+    // グループ内は大きい item から試す（大→小に入れ替えると超過が減る）
+    const groupItemsDesc = [...d.g.items].sort((a, b) => b.amount - a.amount);
+    const count = countOf(d.g.items, rules);
+
+    for (const gItem of groupItemsDesc) {
+      tried += poolAsc.length;
+      if (tried >= 1024) {
+        tried = 0;
+        if (now() >= deadline) return false;
+      }
+      const rest = count - sizeOf(gItem, rules);
+      const others = d.g.items.filter((it) => it !== gItem);
+      // gItem を外しても、poolItem を入れれば threshold を満たす必要がある
+      // newTotal = g.total - gItem + poolItem >= threshold
+      // かつ poolItem < gItem（入れ替えの意味がある）
+      const need = threshold - (d.g.total - gItem.amount);
+
+      // need を満たす最小の poolItem を探す（超過を最小化）
+      const candidate = poolAsc.find((p) => {
+        const newCount = rest + sizeOf(p, rules);
+        return (
+          p.amount >= need &&
+          p.amount < gItem.amount &&
+          canJoin(others, p) &&
+          newCount >= rules.minItems &&
+          newCount <= rules.maxItems
+        );
+      });
+      if (!candidate) continue;
+
+      // --- swap 実行 ---
+      // pool から candidate を削除
+      const poolIdx = pool.findIndex((p) => p.position === candidate.position);
+      if (poolIdx < 0) continue;
+      pool.splice(poolIdx, 1);
+
+      // group から gItem を削除
+      const groupIdx = d.g.items.findIndex(
+        (it) => it.position === gItem.position
+      );
+      if (groupIdx < 0) {
+        // ロールバック
+        pool.push(candidate);
+        continue;
+      }
+      d.g.items.splice(groupIdx, 1);
+
+      // group に candidate を追加
+      d.g.items.push(candidate);
+      d.g.total = d.g.total - gItem.amount + candidate.amount;
+
+      // pool に gItem を戻す
+      pool.push(gItem);
+
+      return true;
+    }
+  }
+
+  return false;
+}
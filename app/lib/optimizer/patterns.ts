@@ -0,0 +1,277 @@
+// patterns.ts
+// 大口注文（MAX_ITEMS超）向けに、同額をまとめたパターンで解く。
+
+import { isCurrentClock, withClock } from "~/lib/optimizer/clock";
+import {
+  binsToGroups,
+  boundFromCounts,
+  groupByAmount,
+  searchExactBins,
+} from "~/lib/optimizer/exact";
+import { finalizeResult } from "~/lib/optimizer/result";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  BundlePattern,
+  OptimizeOptions,
+  PatternOptimizationResult,
+  QuantityRow,
+} from "~/lib/optimizer/types";
+
+/**
+ * 数量つきの行（{ amount, quantity }）をそのまま扱う版。
+ * 1点ずつ BundleItem に展開せず、「2×1400 + 1×300」のような組み合わせ（パターン）を
+ * 何回使うか（multiplicity）で解くので、数百〜数千点の注文でも速い。
+ * - threshold以上の単品は単品パターン
+ * - それ以外は「残りの最大額を核に、最後の1点で初めて届く組み合わせ」から余剰最小のものを選び、
+ *   作れるだけ作る、を繰り返す
+ * - mode: "exact" なら、その解を下界に分枝限定法（同額まとめ）で上積み／証明を試みる
+ */
+export function optimizePatternBundles(
+  rows: QuantityRow[],
+  threshold: number,
+  options: OptimizeOptions = {}
+): PatternOptimizationResult {
+  if (options.clock && !isCurrentClock(options.clock)) {
+    return withClock(options.clock, () =>
+      optimizePatternBundles(rows, threshold, options)
+    );
+  }
+  const { amounts, counts } = collapseRows(rows);
+
+  if (!amounts.length || threshold <= 0) {
+    return finalizePatternResult(amounts, counts, [], threshold, true, 0);
+  }
+
+  const { patterns, optimal, upperBound } = solvePatterns(
+    amounts,
+    counts,
+    threshold,
+    options
+  );
+  return finalizePatternResult(
+    amounts,
+    counts,
+    patterns,
+    threshold,
+    optimal,
+    upperBound
+  );
+}
+
+/**
+ * optimizeGiftBundles の大口注文向け経路：同額をまとめてパターンで解き、
+ * 結果を元の BundleItem（position）に割り当て直す。
+ */
+export function optimizeViaPatterns(
+  items: BundleItem[],
+  threshold: number,
+  options: OptimizeOptions
+): BundleOptimizationResult {
+  const { amounts, buckets } = groupByAmount(items);
+  const { patterns, optimal, upperBound } = solvePatterns(
+    amounts,
+    buckets.map((b) => b.length),
+    threshold,
+    options
+  );
+  const bins = patterns.flatMap((p) =>
+    Array.from({ length: p.multiplicity }, () => p.bin)
+  );
+  return finalizeResult(
+    items,
+    binsToGroups(bins, buckets),
+    threshold,
+    optimal,
+    upperBound
+  );
+}
+
+function solvePatterns(
+  amounts: number[],
+  counts: number[],
+  threshold: number,
+  options: OptimizeOptions
+): { patterns: WorkingPattern[]; optimal: boolean; upperBound: number } {
+  const initialUpperBound = boundFromCounts(amounts, counts, threshold);
+  let patterns = buildGreedyPatterns(amounts, counts, threshold);
+  let totalGifts = patterns.reduce((s, p) => s + p.multiplicity, 0);
+  let optimal = totalGifts >= initialUpperBound;
+
+  if (options.mode === "exact" && !optimal) {
+    const exact = searchExactBins(
+      amounts,
+      counts,
+      threshold,
+      totalGifts,
+      options
+    );
+    if (exact.bins) {
+      patterns = binsToPatterns(exact.bins);
+      totalGifts = exact.bins.length;
+    }
+    optimal = exact.proven;
+  }
+
+  return {
+    patterns,
+    optimal,
+    upperBound: optimal ? totalGifts : initialUpperBound,
+  };
+}
+
+/** 額ごとに数量を合算（amounts は降順） */
+function collapseRows(rows: QuantityRow[]): {
+  amounts: number[];
+  counts: number[];
+} {
+  const byAmount = new Map<number, number>();
+  for (const r of rows) {
+    const amt = Math.floor(r.amount);
+    const q = Math.floor(r.quantity);
+    if (!Number.isFinite(amt) || amt <= 0) continue;
+    if (!Number.isFinite(q) || q <= 0) continue;
+    byAmount.set(amt, (byAmount.get(amt) ?? 0) + q);
+  }
+  const amounts = [...byAmount.keys()].sort((a, b) => b - a);
+  return { amounts, counts: amounts.map((a) => byAmount.get(a)!) };
+}
+
+/** パターンは amounts の index 列（降順）と使用回数で持つ */
+type WorkingPattern = { bin: number[]; multiplicity: number };
+
+function buildGreedyPatterns(
+  amounts: number[],
+  initialCounts: number[],
+  threshold: number
+): WorkingPattern[] {
+  const counts = [...initialCounts];
+  const patterns: WorkingPattern[] = [];
+  const enumerateCap = 5000; // 1回の核あたりに調べる組み合わせ数の上限
+
+  // threshold以上は単品で
+  for (let i = 0; i < amounts.length; i++) {
+    if (amounts[i] < threshold || !counts[i]) continue;
+    patterns.push({ bin: [i], multiplicity: counts[i] });
+    counts[i] = 0;
+  }
+
+  for (;;) {
+    const head = counts.findIndex((c) => c > 0);
+    if (head < 0) break;
+
+    const rest = amounts.reduce((s, a, i) => s + a * counts[i], 0);
+    if (rest < threshold) break;
+
+    // head を核に、最後の1点で届く組み合わせのうち余剰最小（同じなら点数が少ない）を探す
+    let bestBin: number[] | null = null;
+    let bestOvershoot = Infinity;
+    let visited = 0;
+
+    counts[head]--;
+    const bin = [head];
+    const fill = (idx: number, total: number) => {
+      for (let j = idx; j < amounts.length; j++) {
+        if (!counts[j] || visited >= enumerateCap) continue;
+        visited++;
+        counts[j]--;
+        bin.push(j);
+        const next = total + amounts[j];
+        if (next >= threshold) {
+          const overshoot = next - threshold;
+          if (
+            overshoot < bestOvershoot ||
+            (overshoot === bestOvershoot &&
+              bestBin &&
+              bin.length < bestBin.length)
+          ) {
+            bestOvershoot = overshoot;
+            bestBin = [...bin];
+          }
+        } else {
+          fill(j, next);
+        }
+        bin.pop();
+        counts[j]++;
+      }
+    };
+    fill(head, amounts[head]);
+    counts[head]++;
+
+    if (!bestBin) {
+      // head を含む組み合わせは作れない（残り全部足しても届かない）→ 使わない
+      counts[head] = 0;
+      continue;
+    }
+
+    // 作れるだけ作る
+    const need = new Map<number, number>();
+    for (const idx of bestBin as number[])
+      need.set(idx, (need.get(idx) ?? 0) + 1);
+    let multiplicity = Infinity;
+    for (const [idx, n] of need) {
+      multiplicity = Math.min(multiplicity, Math.floor(counts[idx] / n));
+    }
+    for (const [idx, n] of need) counts[idx] -= n * multiplicity;
+    patterns.push({ bin: bestBin, multiplicity });
+  }
+
+  return patterns;
+}
+
+function binsToPatterns(bins: number[][]): WorkingPattern[] {
+  const byKey = new Map<string, WorkingPattern>();
+  for (const bin of bins) {
+    const sorted = [...bin].sort((a, b) => a - b);
+    const key = sorted.join(",");
+    const found = byKey.get(key);
+    if (found) found.multiplicity++;
+    else byKey.set(key, { bin: sorted, multiplicity: 1 });
+  }
+  return [...byKey.values()];
+}
+
+function finalizePatternResult(
+  amounts: number[],
+  initialCounts: number[],
+  working: WorkingPattern[],
+  threshold: number,
+  optimal: boolean,
+  upperBound: number
+): PatternOptimizationResult {
+  const counts = [...initialCounts];
+
+  const patterns: BundlePattern[] = working
+    .filter((p) => p.multiplicity > 0)
+    .map(({ bin, multiplicity }) => {
+      const perAmount = new Map<number, number>();
+      for (const idx of bin) {
+        perAmount.set(idx, (perAmount.get(idx) ?? 0) + 1);
+        counts[idx] -= multiplicity;
+      }
+      const items = [...perAmount.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([idx, quantity]) => ({ amount: amounts[idx], quantity }));
+      const total = bin.reduce((s, idx) => s + amounts[idx], 0);
+      return { items, total, multiplicity };
+    })
+    .sort((a, b) => b.multiplicity - a.multiplicity || a.total - b.total);
+
+  const leftover = amounts
+    .map((amount, idx) => ({ amount, quantity: counts[idx] }))
+    .filter((r) => r.quantity > 0);
+
+  const totalGifts = patterns.reduce((s, p) => s + p.multiplicity, 0);
+
+  return {
+    patterns,
+    leftover,
+    totalGifts,
+    threshold,
+    totalAmount: amounts.reduce((s, a, i) => s + a * initialCounts[i], 0),
+    coveredAmount: patterns.reduce((s, p) => s + p.total * p.multiplicity, 0),
+    optimal,
+    upperBound,
+    gap: upperBound - totalGifts,
+  };
+}
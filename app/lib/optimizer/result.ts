@@ -0,0 +1,57 @@
+// result.ts
+// 作ったグループから結果（leftover・合計・上界）を組み立てる。
+
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/** groups から leftover / 合計を組み立て、position順に整形した結果を返す */
+export function finalizeResult(
+  items: BundleItem[],
+  groups: WorkingGroup[],
+  threshold: number,
+  optimal: boolean,
+  upperBound: number
+): BundleOptimizationResult {
+  const normalizedGroups = sortGroupsByPosition(groups);
+
+  const usedPositions = new Set<number>();
+  for (const g of normalizedGroups) {
+    for (const it of g.items) usedPositions.add(it.position);
+  }
+
+  const leftover = items.filter((it) => !usedPositions.has(it.position));
+  const totalAmount = items.reduce((s, it) => s + it.amount, 0);
+  const coveredAmount = normalizedGroups.reduce((s, g) => s + g.total, 0);
+
+  return {
+    groups: normalizedGroups,
+    leftover,
+    totalGifts: normalizedGroups.length,
+    threshold,
+    totalAmount,
+    coveredAmount,
+    optimal,
+    upperBound,
+    gap: upperBound - normalizedGroups.length,
+  };
+}
+
+export function sortGroupsByPosition(groups: WorkingGroup[]): WorkingGroup[] {
+  return [...groups]
+    .map((g) => ({
+      total: g.total,
+      items: [...g.items].sort((a, b) => a.position - b.position),
+    }))
+    .sort((a, b) => {
+      const minA = a.items.length
+        ? a.items[0].position
+        : Number.MAX_SAFE_INTEGER;
+      const minB = b.items.length
+        ? b.items[0].position
+        : Number.MAX_SAFE_INTEGER;
+      return minA - minB;
+    });
+}
@@ -0,0 +1,209 @@
+// rules.ts
+// 会計ごとの制約（点数・groupKey / SKU のブロック・exclusiveKey）を内部の GroupRules にし、
+// ブロック単位の結果を実アイテムに戻す。
+
+import { sortGroupsByPosition } from "~/lib/optimizer/result";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  ConstraintIssue,
+  GroupConstraints,
+  SolverMoveState,
+} from "~/lib/optimizer/types";
+
+/**
+ * 制約をアルゴリズム内部で扱う形。
+ * 一緒に扱う必要のあるアイテム（同じ groupKey / SKU）は合計額を持つ1つの「ブロック」に束ね、
+ * 各手はグループの点数（ブロックは中身の点数で数える）が [minItems, maxItems] に収まるか、
+ * exclusiveKey が混ざらないか（canJoin）を見る。
+ */
+export type GroupRules = {
+  minItems: number;
+  /** 制限なしは Number.MAX_SAFE_INTEGER（使えないブロックの点数 Infinity が必ず超えるように） */
+  maxItems: number;
+  /** ブロックの position（中身の先頭の position）→ 中身の実アイテム */
+  blocks: Map<number, BundleItem[]>;
+  /** どのグループにも入れられないブロックの position（点数を Infinity とみなす） */
+  unusable: Set<number>;
+  issues: ConstraintIssue[];
+};
+
+export const NO_RULES: GroupRules = {
+  minItems: 1,
+  maxItems: Number.MAX_SAFE_INTEGER,
+  blocks: new Map(),
+  unusable: new Set(),
+  issues: [],
+};
+
+/**
+ * constraints とアイテムの groupKey / exclusiveKey から GroupRules を作り、
+ * ブロックに束ねたアイテム列を返す（どれも無ければ NO_RULES）
+ */
+export function buildGroupRules(
+  items: BundleItem[],
+  constraints: GroupConstraints = {}
+): { rules: GroupRules; items: BundleItem[] } {
+  const { maxItemsPerGroup, minItemsPerGroup, keepSkuTogether } = constraints;
+  const hasMax = maxItemsPerGroup !== undefined && maxItemsPerGroup > 0;
+  const hasMin = minItemsPerGroup !== undefined && minItemsPerGroup > 1;
+  const hasKeys = items.some((it) => it.groupKey || it.exclusiveKey);
+  if (!hasMax && !hasMin && !keepSkuTogether && !hasKeys) {
+    return { rules: NO_RULES, items };
+  }
+
+  const rules: GroupRules = {
+    minItems: hasMin ? Math.floor(minItemsPerGroup) : 1,
+    maxItems: hasMax ? Math.floor(maxItemsPerGroup) : Number.MAX_SAFE_INTEGER,
+    blocks: new Map(),
+    unusable: new Set(),
+    issues: [],
+  };
+
+  // 一緒に扱うアイテムを union-find でまとめる（同じ groupKey、keepSkuTogether なら同じ SKU）
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const linkBy = (keyOf: (it: BundleItem) => string | undefined) => {
+    const first = new Map<string, number>();
+    items.forEach((it, i) => {
+      const key = keyOf(it);
+      if (!key) return;
+      const j = first.get(key);
+      if (j === undefined) first.set(key, i);
+      else parent[find(i)] = find(j);
+    });
+  };
+  linkBy((it) => it.groupKey);
+  if (keepSkuTogether) linkBy((it) => it.meta?.sku);
+
+  const members = new Map<number, BundleItem[]>();
+  items.forEach((it, i) => {
+    const root = find(i);
+    const list = members.get(root);
+    if (list) list.push(it);
+    else members.set(root, [it]);
+  });
+
+  const blocked: BundleItem[] = [];
+  for (const units of members.values()) {
+    if (units.length === 1) {
+      blocked.push(units[0]);
+      continue;
+    }
+
+    units.sort((a, b) => a.position - b.position);
+    const keys = [
+      ...new Set(
+        units.flatMap((it) => (it.exclusiveKey ? [it.exclusiveKey] : []))
+      ),
+    ];
+    const block: BundleItem = {
+      ...units[0],
+      amount: units.reduce((s, it) => s + it.amount, 0),
+      exclusiveKey: keys[0],
+    };
+    rules.blocks.set(block.position, units);
+    blocked.push(block);
+
+    const positions = units.map((it) => it.position);
+    if (keys.length > 1) {
+      rules.unusable.add(block.position);
+      rules.issues.push({
+        kind: "conflictingExclusiveKeys",
+        positions,
+        exclusiveKeys: keys,
+      });
+    } else if (units.length > rules.maxItems) {
+      rules.issues.push({
+        kind: "blockTooLarge",
+        positions,
+        size: units.length,
+        maxItems: rules.maxItems,
+      });
+    }
+  }
+
+  return { rules, items: blocked };
+}
+
+/** グループ内で数える点数（ブロックは中身の点数） */
+export function sizeOf(item: BundleItem, rules: GroupRules): number {
+  if (rules.unusable.has(item.position)) return Infinity;
+  return rules.blocks.get(item.position)?.length ?? 1;
+}
+
+export function countOf(items: BundleItem[], rules: GroupRules): number {
+  return items.reduce((s, it) => s + sizeOf(it, rules), 0);
+}
+
+/** 景品1個として成立するか（金額と最低点数） */
+export function isComplete(
+  total: number,
+  count: number,
+  threshold: number,
+  rules: GroupRules
+): boolean {
+  return total >= threshold && count >= rules.minItems;
+}
+
+/** item を items と同じグループに入れても exclusiveKey が混ざらないか */
+export function canJoin(items: BundleItem[], item: BundleItem): boolean {
+  const key = item.exclusiveKey;
+  return (
+    !key || items.every((it) => !it.exclusiveKey || it.exclusiveKey === key)
+  );
+}
+
+export function expandBlocks(
+  items: BundleItem[],
+  rules: GroupRules
+): BundleItem[] {
+  return items.flatMap((it) => rules.blocks.get(it.position) ?? [it]);
+}
+
+/** ブロック単位の結果を実アイテムの結果に戻す */
+export function expandResult(
+  result: BundleOptimizationResult,
+  rules: GroupRules
+): BundleOptimizationResult {
+  if (!rules.blocks.size) return result;
+  return {
+    ...result,
+    groups: sortGroupsByPosition(
+      result.groups.map((g) => ({
+        total: g.total,
+        items: expandBlocks(g.items, rules),
+      }))
+    ),
+    leftover: expandBlocks(result.leftover, rules).sort(
+      (a, b) => a.position - b.position
+    ),
+    trace: result.trace?.map((move) => ({
+      ...move,
+      positions: expandPositions(move.positions, rules),
+      before: expandMoveState(move.before, rules),
+      after: expandMoveState(move.after, rules),
+    })),
+  };
+}
+
+function expandPositions(positions: number[], rules: GroupRules): number[] {
+  return positions
+    .flatMap((position) =>
+      (rules.blocks.get(position) ?? [{ position }]).map((it) => it.position)
+    )
+    .sort((a, b) => a - b);
+}
+
+function expandMoveState(
+  state: SolverMoveState,
+  rules: GroupRules
+): SolverMoveState {
+  return {
+    ...state,
+    groups: state.groups.map((g) => expandPositions(g, rules)),
+  };
+}
@@ -0,0 +1,252 @@
+// search.ts
+// strategy（restarts / annealing）で局所解の先を乱数つきで探す。seed と試行回数が同じなら同じ解になる。
+
+import { now } from "~/lib/optimizer/clock";
+import {
+  buildInitialSolution,
+  performLocalImprovements,
+} from "~/lib/optimizer/local-moves";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import { canJoin, countOf, isComplete, sizeOf } from "~/lib/optimizer/rules";
+import type {
+  BundleItem,
+  OptimizeOptions,
+  SearchStrategy,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/** strategy の既定の試行回数（時間予算 1ms あたり）。おおむね予算内に収まる回数にしてある */
+const RESTARTS_PER_MS = 2;
+const ANNEAL_STEPS_PER_MS = 500;
+
+/** exact と併用するとき、strategy の探索に回す時間予算の割合（残りは分枝限定法へ） */
+export const SEARCH_SHARE = 0.5;
+
+/** mulberry32。同じ seed なら同じ列を返す */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** timeBudgetMs から決める既定の試行回数 */
+export function defaultSearchSteps(
+  strategy: SearchStrategy,
+  timeBudgetMs: number
+): number {
+  if (strategy === "greedy") return 0;
+  const perMs = strategy === "restarts" ? RESTARTS_PER_MS : ANNEAL_STEPS_PER_MS;
+  return Math.max(1, Math.floor(timeBudgetMs * perMs));
+}
+
+/**
+ * 局所改善の結果（completed）より景品の多い解を strategy で探す。見つからなければ completed のまま。
+ * 上界に届いた・試行回数を使い切った・deadline を過ぎたら止める。
+ */
+export function searchBeyondLocalOptimum(
+  items: BundleItem[],
+  completed: WorkingGroup[],
+  threshold: number,
+  upperBound: number,
+  options: OptimizeOptions,
+  rules: GroupRules,
+  deadline: number
+): WorkingGroup[] {
+  const strategy = options.strategy ?? "greedy";
+  if (strategy === "greedy" || completed.length >= upperBound) {
+    return completed;
+  }
+
+  const steps =
+    options.searchSteps ??
+    defaultSearchSteps(strategy, options.timeBudgetMs ?? 2000);
+  const random = createRandom(options.seed ?? 1);
+  return strategy === "restarts"
+    ? searchByRestarts(
+        items,
+        completed,
+        threshold,
+        upperBound,
+        steps,
+        random,
+        options,
+        rules,
+        deadline
+      )
+    : searchByAnnealing(
+        items,
+        completed,
+        threshold,
+        upperBound,
+        steps,
+        random,
+        rules,
+        deadline
+      );
+}
+
+/** 額を ±30% 揺らした順で初期解から作り直し、局所改善までやって最良を残す */
+function searchByRestarts(
+  items: BundleItem[],
+  completed: WorkingGroup[],
+  threshold: number,
+  upperBound: number,
+  steps: number,
+  random: () => number,
+  options: OptimizeOptions,
+  rules: GroupRules,
+  deadline: number
+): WorkingGroup[] {
+  let best = completed;
+  for (let step = 0; step < steps && best.length < upperBound; step++) {
+    if (now() > deadline) break;
+
+    const order = items
+      .map((it) => ({ it, key: it.amount * (0.7 + random() * 0.6) }))
+      .sort((a, b) => b.key - a.key)
+      .map(({ it }) => it);
+    const { completed: groups, pool } = buildInitialSolution(
+      order,
+      threshold,
+      rules,
+      true,
+      deadline
+    );
+    performLocalImprovements(
+      groups,
+      pool,
+      threshold,
+      items.length,
+      options,
+      rules,
+      deadline
+    );
+    if (groups.length > best.length) best = groups;
+  }
+  return best;
+}
+
+/**
+ * 焼きなまし。完成グループ全部＋空の目標グループ1つを「箱」にして、
+ * 箱の不足額（threshold までの差。点数が minItems に足りなければその分も）の合計を0にすることを狙う。
+ * 1手は、ランダムな1点を別の箱か未使用へ移す、または別の箱・未使用の1点と交換する。
+ * 不足が増える手も温度に応じて受け入れる。全部の箱が完成したら記録して、目標の箱をもう1つ足す。
+ */
+function searchByAnnealing(
+  items: BundleItem[],
+  completed: WorkingGroup[],
+  threshold: number,
+  upperBound: number,
+  steps: number,
+  random: () => number,
+  rules: GroupRules,
+  deadline: number
+): WorkingGroup[] {
+  const bins = completed.map((g) => ({ total: g.total, items: [...g.items] }));
+  const inBins = new Set(bins.flatMap((g) => g.items.map((it) => it.position)));
+  const pool = items.filter(
+    (it) => !inBins.has(it.position) && sizeOf(it, rules) <= rules.maxItems
+  );
+
+  const unit = threshold / rules.minItems;
+  const deficit = (total: number, items: BundleItem[]) => {
+    const count = countOf(items, rules);
+    if (isComplete(total, count, threshold, rules)) return 0;
+    return (
+      Math.max(threshold - total, 0) +
+      Math.max(rules.minItems - count, 0) * unit
+    );
+  };
+  const deficits = bins.map(() => 0);
+  let incomplete = 0;
+  const openTarget = () => {
+    bins.push({ total: 0, items: [] });
+    deficits.push(deficit(0, []));
+    incomplete++;
+  };
+  openTarget();
+
+  let best = completed;
+  // 温度は threshold の 5% から 0.01% まで等比で下げる
+  const hot = threshold * 0.05;
+  const cold = threshold * 0.0001;
+
+  for (let step = 0; step < steps; step++) {
+    if ((step & 1023) === 0 && now() > deadline) break;
+
+    const temperature = hot * Math.pow(cold / hot, step / steps);
+    // 箱の index、bins.length は未使用（pool）
+    const from = Math.floor(random() * (bins.length + 1));
+    const to = Math.floor(random() * (bins.length + 1));
+    const source = from === bins.length ? pool : bins[from].items;
+    const target = to === bins.length ? pool : bins[to].items;
+    if (from === to || !source.length) continue;
+
+    const i = Math.floor(random() * source.length);
+    const j =
+      target.length && random() < 0.5
+        ? Math.floor(random() * target.length)
+        : -1;
+    const moving = source[i];
+    const back = j >= 0 ? target[j] : null;
+
+    const nextSource = source.filter((_, idx) => idx !== i);
+    const nextTarget = target.filter((_, idx) => idx !== j);
+    if (back) nextSource.push(back);
+    nextTarget.push(moving);
+    const allowed = (
+      index: number,
+      next: BundleItem[],
+      added: BundleItem | null
+    ) =>
+      index === bins.length ||
+      !added ||
+      (countOf(next, rules) <= rules.maxItems &&
+        canJoin(
+          next.filter((it) => it !== added),
+          added
+        ));
+    if (!allowed(to, nextTarget, moving) || !allowed(from, nextSource, back)) {
+      continue;
+    }
+
+    const delta = moving.amount - (back?.amount ?? 0);
+    const sourceTotal = from === bins.length ? 0 : bins[from].total - delta;
+    const targetTotal = to === bins.length ? 0 : bins[to].total + delta;
+    const sourceDeficit =
+      from === bins.length ? 0 : deficit(sourceTotal, nextSource);
+    const targetDeficit =
+      to === bins.length ? 0 : deficit(targetTotal, nextTarget);
+    const change =
+      sourceDeficit +
+      targetDeficit -
+      (from === bins.length ? 0 : deficits[from]) -
+      (to === bins.length ? 0 : deficits[to]);
+    if (change > 0 && random() >= Math.exp(-change / temperature)) continue;
+
+    for (const [index, next, total, value] of [
+      [from, nextSource, sourceTotal, sourceDeficit],
+      [to, nextTarget, targetTotal, targetDeficit],
+    ] as const) {
+      if (index === bins.length) {
+        pool.splice(0, pool.length, ...next);
+        continue;
+      }
+      incomplete += (value > 0 ? 1 : 0) - (deficits[index] > 0 ? 1 : 0);
+      bins[index] = { total, items: next };
+      deficits[index] = value;
+    }
+
+    if (incomplete === 0) {
+      best = bins.map((g) => ({ total: g.total, items: [...g.items] }));
+      if (best.length >= upperBound) break;
+      openTarget();
+    }
+  }
+  return best;
+}
@@ -0,0 +1,140 @@
+// secondary.ts
+// 景品の数を変えずに、secondaryObjective（超過額・使う金額など）でグループを詰め直す。
+
+import { now } from "~/lib/optimizer/clock";
+import {
+  exchangeBetweenGroups,
+  swapItemBetweenGroupAndPool,
+  trimGroupInto,
+} from "~/lib/optimizer/local-moves";
+import { finalizeResult } from "~/lib/optimizer/result";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import { canJoin, countOf, sizeOf } from "~/lib/optimizer/rules";
+import { continueTrace } from "~/lib/optimizer/trace";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  SecondaryObjective,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/** 時間予算を使い切っていても、secondaryObjective の詰め直しにはこれだけ使う */
+export const SECONDARY_MIN_MS = 200;
+
+/**
+ * グループ数を変えずに余剰を減らす（groups / pool は破壊的に更新）。
+ * - 「抜いても threshold を割らない」アイテムを pool に戻す
+ * - swapItemBetweenGroupAndPool で大きいアイテムを pool の小さいアイテムと入れ替える
+ * - グループ間でアイテムを交換し、片方に「抜けるアイテム」を作って pool に戻す
+ * deadline を過ぎたらその時点で打ち切る（途中でも解としては有効）。
+ */
+export function tightenGroups(
+  groups: WorkingGroup[],
+  pool: BundleItem[],
+  threshold: number,
+  deadline: number,
+  rules: GroupRules
+) {
+  // どの手も covered（全グループ合計）を必ず減らすので止まるが、念のため上限を置く
+  const cap = Math.min(5000, (pool.length + 1) * (groups.length + 1) * 2);
+  // グループ間交換はグループ数の2乗で重いので、少ないときだけ
+  const exchangeLimit = 400;
+  for (let i = 0; i < cap && now() < deadline; i++) {
+    for (const g of groups) trimGroupInto(g, pool, threshold, rules);
+    if (swapItemBetweenGroupAndPool(groups, pool, threshold, deadline, rules)) {
+      continue;
+    }
+    if (
+      groups.length <= exchangeLimit &&
+      exchangeBetweenGroups(groups, pool, threshold, deadline, rules)
+    ) {
+      continue;
+    }
+    break;
+  }
+}
+
+/**
+ * 各段のグループ数（=景品数）を変えずに secondaryObjective に沿って詰め直し、
+ * 段ごとの leftover を組み立て直した plan を返す。plan は上の段から並んでいること。
+ */
+export function applySecondaryObjective(
+  input: BundleItem[],
+  plan: BundleOptimizationResult[],
+  objective: SecondaryObjective | undefined,
+  deadline: number,
+  rules: GroupRules
+): BundleOptimizationResult[] {
+  if (!objective || !plan.length) return plan;
+
+  const tiers = plan.map((r) =>
+    r.groups.map((g) => ({ total: g.total, items: [...g.items] }))
+  );
+  const pool = [...plan[plan.length - 1].leftover];
+  const until = Math.max(deadline, now() + SECONDARY_MIN_MS);
+
+  if (objective === "minCheckouts") {
+    absorbLeftover(tiers.flat(), pool, rules);
+  } else {
+    // 景品数が同じなら「超過の合計 + 未使用の合計」は一定なので、どちらも同じ詰め方になる。
+    // 上の段で外したアイテムは pool に入り、下の段の入れ替えに使える
+    plan.forEach((r, p) =>
+      tightenGroups(tiers[p], pool, r.threshold, until, rules)
+    );
+  }
+
+  let rest = input;
+  return plan.map((r, p) => {
+    const result = continueTrace(
+      "secondaryObjective",
+      r,
+      finalizeResult(rest, tiers[p], r.threshold, r.optimal, r.upperBound)
+    );
+    rest = result.leftover;
+    return result;
+  });
+}
+
+/**
+ * 未使用を既存グループに混ぜる（金額が増えるだけなので完成のまま）。
+ * 大きいアイテムから、点数・exclusiveKey の許すグループのうち点数の少ないものへ入れる。
+ */
+function absorbLeftover(
+  groups: WorkingGroup[],
+  pool: BundleItem[],
+  rules: GroupRules
+) {
+  for (const item of [...pool].sort((a, b) => b.amount - a.amount)) {
+    const size = sizeOf(item, rules);
+    let target: WorkingGroup | undefined;
+    let targetCount = Infinity;
+    for (const g of groups) {
+      const count = countOf(g.items, rules);
+      if (count >= targetCount || count + size > rules.maxItems) continue;
+      if (!canJoin(g.items, item)) continue;
+      target = g;
+      targetCount = count;
+    }
+    if (!target) continue;
+
+    target.items.push(item);
+    target.total += item.amount;
+    pool.splice(pool.indexOf(item), 1);
+  }
+}
+
+/** scoreTierPlan の後ろに足す比較用スコア（大きいほど良い） */
+export function secondaryScore(
+  plan: BundleOptimizationResult[],
+  objective: SecondaryObjective | undefined
+): number[] {
+  switch (objective) {
+    case "minOvershoot":
+    case "maxLeftover":
+      return [-plan.reduce((s, r) => s + r.coveredAmount, 0)];
+    case "minCheckouts":
+      return [-(plan[plan.length - 1]?.leftover.length ?? 0)];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,441 @@
+// tiered.ts
+// 複数段の景品を同時に最適化する optimizeTieredBundles と、店舗ごとにまとめる optimizeStoreBundles。
+
+import { solveGiftBundles, withGiftsLost } from "~/lib/optimizer/bundles";
+import { isCurrentClock, now, withClock } from "~/lib/optimizer/clock";
+import { computeUpperBound } from "~/lib/optimizer/exact";
+import { sanitizeItems } from "~/lib/optimizer/items";
+import { finalizeResult } from "~/lib/optimizer/result";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import {
+  buildGroupRules,
+  expandBlocks,
+  expandResult,
+  NO_RULES,
+} from "~/lib/optimizer/rules";
+import { defaultSearchSteps, SEARCH_SHARE } from "~/lib/optimizer/search";
+import {
+  applySecondaryObjective,
+  SECONDARY_MIN_MS,
+  secondaryScore,
+  tightenGroups,
+} from "~/lib/optimizer/secondary";
+import { continueTrace } from "~/lib/optimizer/trace";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  GiftTierSpec,
+  MultiStoreOptimizationResult,
+  OptimizeOptions,
+  StoreSpec,
+  TieredOptimizationResult,
+  TieredOptimizeOptions,
+  TierObjective,
+} from "~/lib/optimizer/types";
+
+/**
+ * 複数段の景品（例: A=2000, B=1000）を同時に最適化する。
+ * 「Aを最大化 → 余りでB」の逐次計算を初期解に、各段で「あえて k 個だけ作る」
+ * （余剰の少ないグループを残し、残りは下の段へ回す）パターンを掃引して objective で比較する。
+ * tiers / 結果の tiers は入力順。内部では threshold の高い順に処理し、
+ * 各段の leftover は「その段までで使われなかったアイテム」（次の段の入力）になる。
+ */
+export function optimizeTieredBundles(
+  items: BundleItem[],
+  tiers: GiftTierSpec[],
+  options: TieredOptimizeOptions = {}
+): TieredOptimizationResult {
+  if (options.clock && !isCurrentClock(options.clock)) {
+    return withClock(options.clock, () =>
+      optimizeTieredBundles(items, tiers, options)
+    );
+  }
+  const units = sanitizeItems(items);
+  const { rules, items: sanitized } = buildGroupRules(
+    units,
+    options.constraints
+  );
+  const order = tiers
+    .map((_, idx) => idx)
+    .sort((a, b) => tiers[b].threshold - tiers[a].threshold);
+  const specs = order.map((idx) => tiers[idx]);
+  const objective = options.objective ?? "lexicographic";
+  const { onProgress, strategy, seed, searchSteps, ...inner } = options;
+  const heuristic: OptimizeOptions = { ...inner, mode: "heuristic" };
+
+  // 時間予算は呼び出し全体で共有する（exact は残り時間だけ使う）
+  const startedAt = now();
+  const budgetMs = options.timeBudgetMs ?? 2000;
+  const deadline = startedAt + budgetMs;
+  const exact = (): OptimizeOptions => ({
+    ...inner,
+    timeBudgetMs: Math.max(0, deadline - now()),
+  });
+
+  // 景品の数が同じなら secondaryObjective で比べる
+  const score = (plan: BundleOptimizationResult[]) => [
+    ...scoreTierPlan(plan, specs, objective),
+    ...secondaryScore(plan, options.secondaryObjective),
+  ];
+  const isBetter = (plan: BundleOptimizationResult[], than: typeof plan) =>
+    compareScores(score(plan), score(than)) > 0;
+
+  const report = () =>
+    onProgress?.({
+      bestGifts: best.reduce((s, r) => s + r.totalGifts, 0),
+      elapsedMs: now() - startedAt,
+    });
+
+  // strategy は最初の1本だけに使う（掃引で何度も解き直すので）。試行回数は予算を段ごとに等分して決め、
+  // 時間は deadline までを安全のための上限にするだけ（打ち切れば timedOut で分かる）
+  const searchBudgetMs =
+    (budgetMs * (options.mode === "exact" ? SEARCH_SHARE : 1)) /
+    Math.max(1, specs.length);
+  let best = runTierChain(
+    sanitized,
+    [],
+    specs,
+    {
+      ...heuristic,
+      strategy,
+      seed,
+      searchSteps:
+        searchSteps ?? defaultSearchSteps(strategy ?? "greedy", searchBudgetMs),
+      timeBudgetMs: Math.max(0, deadline - now()),
+    },
+    rules,
+    deadline
+  );
+  report();
+
+  if (options.mode === "exact") {
+    const exactChain = runTierChain(
+      sanitized,
+      [],
+      specs,
+      exact(),
+      rules,
+      deadline
+    );
+    if (isBetter(exactChain, best)) {
+      best = exactChain;
+      report();
+    }
+  }
+
+  // 掃引：段 p を k 個に絞って、以降の段を計算し直す
+  const maxRounds = 3;
+  for (let round = 0; round < maxRounds; round++) {
+    let improved = false;
+
+    for (let p = 0; p < specs.length && now() < deadline; p++) {
+      const prefix = best.slice(0, p);
+      const input = p ? prefix[p - 1].leftover : sanitized;
+      // exact で得た段のほうが多ければ、それを起点に絞る
+      const resolved = solveGiftBundles(
+        input,
+        specs[p].threshold,
+        { ...heuristic, timeBudgetMs: Math.max(0, deadline - now()) },
+        rules
+      );
+      const full =
+        best[p].totalGifts > resolved.totalGifts ? best[p] : resolved;
+
+      // 大口注文では k を間引く（最後に必ず k=0 も試す）。maxGifts を超える k は試さない
+      const step = Math.max(1, Math.ceil(full.totalGifts / 40));
+      for (
+        let k = Math.min(full.totalGifts, specs[p].maxGifts ?? Infinity);
+        k >= 0 && now() < deadline;
+        k = k > 0 ? Math.max(0, k - step) : -1
+      ) {
+        const tier = capTier(
+          input,
+          keepCheapestGroups(input, full, k, deadline, rules),
+          specs[p],
+          deadline,
+          rules
+        );
+        const plan = runTierChain(
+          tier.leftover,
+          [...prefix, tier],
+          specs,
+          heuristic,
+          rules,
+          deadline
+        );
+        if (isBetter(plan, best)) {
+          best = plan;
+          improved = true;
+          report();
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  // exact指定時は最後の段だけ残り時間で厳密に詰め直し、良くなったときだけ差し替える
+  // （入力が固定なので他の段は変わらないが、打ち切られた exact は掃引の結果より悪いことがある）
+  const last = specs.length - 1;
+  if (
+    options.mode === "exact" &&
+    last >= 0 &&
+    !best[last].optimal &&
+    now() < deadline
+  ) {
+    const input = last ? best[last - 1].leftover : sanitized;
+    const candidate = capTier(
+      input,
+      solveGiftBundles(input, specs[last].threshold, inner, rules, deadline),
+      specs[last],
+      deadline,
+      rules
+    );
+    const plan = [...best.slice(0, last), candidate];
+    if (isBetter(plan, best)) {
+      best = plan;
+      report();
+    }
+  }
+
+  best = applySecondaryObjective(
+    sanitized,
+    best,
+    options.secondaryObjective,
+    deadline,
+    rules
+  );
+
+  const results: BundleOptimizationResult[] = new Array(tiers.length);
+  order.forEach((idx, p) => {
+    results[idx] = expandResult(best[p], rules);
+  });
+
+  const totalGifts = best.reduce((s, r) => s + r.totalGifts, 0);
+  const minThreshold = specs.length ? specs[last].threshold : 0;
+  const upperBound = computeUpperBound(units, minThreshold);
+
+  const result: TieredOptimizationResult = {
+    tiers: results,
+    leftover: best.length
+      ? expandBlocks(best[last].leftover, rules).sort(
+          (a, b) => a.position - b.position
+        )
+      : units,
+    totalGifts,
+    totalValue: best.reduce(
+      (s, r, p) => s + r.totalGifts * tierValue(specs[p]),
+      0
+    ),
+    totalAmount: units.reduce((s, it) => s + it.amount, 0),
+    coveredAmount: best.reduce((s, r) => s + r.coveredAmount, 0),
+    upperBound,
+    gap: upperBound - totalGifts,
+    // 探索・掃引・exact の打ち切りはどれも deadline を過ぎてから起きるので、過ぎていなければ最後まで回っている
+    timedOut: now() >= deadline,
+  };
+  if (rules === NO_RULES) return result;
+
+  // 比較用の制約なしの解は時間予算が残っているときだけ、残りの時間で解く
+  const free = result.timedOut
+    ? []
+    : runTierChain(units, [], specs, {}, NO_RULES, deadline);
+  return {
+    ...result,
+    constraintIssues: withGiftsLost(
+      rules.issues,
+      totalGifts,
+      free.reduce((s, r) => s + r.totalGifts, 0)
+    ),
+  };
+}
+
+/**
+ * 複数店舗をまとめて最適化する。店舗どうしでアイテムは融通できないので、
+ * 店舗ごとに optimizeTieredBundles を呼び、合計を足し合わせるだけ。
+ * 時間予算は「残り時間 × 残りの点数に占めるその店舗の点数」で配分する。
+ */
+export function optimizeStoreBundles(
+  stores: StoreSpec[],
+  options: TieredOptimizeOptions = {}
+): MultiStoreOptimizationResult {
+  if (options.clock && !isCurrentClock(options.clock)) {
+    return withClock(options.clock, () =>
+      optimizeStoreBundles(stores, options)
+    );
+  }
+  const { onProgress, ...inner } = options;
+  const startedAt = now();
+  const deadline = startedAt + (options.timeBudgetMs ?? 2000);
+  let remainingItems = stores.reduce((s, st) => s + st.items.length, 0);
+  let doneGifts = 0;
+
+  const allItems = remainingItems;
+
+  const results = stores.map((store) => {
+    const share = remainingItems ? store.items.length / remainingItems : 1;
+    remainingItems -= store.items.length;
+    const result = optimizeTieredBundles(store.items, store.tiers, {
+      ...inner,
+      timeBudgetMs: Math.max(0, (deadline - now()) * share),
+      // 残り時間は実行ごとに違うので、試行回数は点数の割合だけで決める（再現性のため）
+      searchSteps:
+        inner.searchSteps ??
+        defaultSearchSteps(
+          inner.strategy ?? "greedy",
+          ((options.timeBudgetMs ?? 2000) *
+            (allItems ? store.items.length / allItems : 1) *
+            (options.mode === "exact" ? SEARCH_SHARE : 1)) /
+            Math.max(1, store.tiers.length)
+        ),
+      onProgress:
+        onProgress &&
+        ((progress) =>
+          onProgress({
+            bestGifts: doneGifts + progress.bestGifts,
+            elapsedMs: now() - startedAt,
+          })),
+    });
+    doneGifts += result.totalGifts;
+    return result;
+  });
+
+  const sum = (pick: (r: TieredOptimizationResult) => number) =>
+    results.reduce((s, r) => s + pick(r), 0);
+
+  return {
+    stores: results,
+    totalGifts: sum((r) => r.totalGifts),
+    totalValue: sum((r) => r.totalValue),
+    totalAmount: sum((r) => r.totalAmount),
+    coveredAmount: sum((r) => r.coveredAmount),
+    upperBound: sum((r) => r.upperBound),
+    gap: sum((r) => r.gap),
+    timedOut: results.some((r) => r.timedOut),
+  };
+}
+
+/**
+ * prefix（確定済みの段）に続けて、残りの段を「最大化 → 余りを次へ」で埋める。
+ * 各段の解は deadline までの残り時間で打ち切る。
+ */
+function runTierChain(
+  input: BundleItem[],
+  prefix: BundleOptimizationResult[],
+  specs: GiftTierSpec[],
+  options: OptimizeOptions,
+  rules: GroupRules,
+  deadline = now() + SECONDARY_MIN_MS
+): BundleOptimizationResult[] {
+  const plan = [...prefix];
+  let rest = input;
+  for (let p = prefix.length; p < specs.length; p++) {
+    const result = capTier(
+      rest,
+      solveGiftBundles(
+        rest,
+        specs[p].threshold,
+        { ...options, timeBudgetMs: Math.max(0, deadline - now()) },
+        rules
+      ),
+      specs[p],
+      deadline,
+      rules
+    );
+    plan.push(result);
+    rest = result.leftover;
+  }
+  return plan;
+}
+
+/**
+ * spec.maxGifts を超えた分は余剰の少ないグループから残し、外したアイテムは下の段へ回す。
+ * 上限に届いていればそれ以上は作っても使えないので、上界も maxGifts で抑える。
+ */
+function capTier(
+  input: BundleItem[],
+  result: BundleOptimizationResult,
+  spec: GiftTierSpec,
+  deadline: number,
+  rules: GroupRules
+): BundleOptimizationResult {
+  const maxGifts = spec.maxGifts;
+  if (maxGifts === undefined || result.upperBound <= maxGifts) return result;
+
+  const capped =
+    result.totalGifts > maxGifts
+      ? keepCheapestGroups(input, result, maxGifts, deadline, rules)
+      : result;
+  const optimal = capped.totalGifts >= maxGifts || capped.optimal;
+  const upperBound = optimal ? capped.totalGifts : maxGifts;
+  return {
+    ...capped,
+    optimal,
+    upperBound,
+    gap: upperBound - capped.totalGifts,
+  };
+}
+
+/**
+ * full のうち合計の小さい（余剰の少ない）k グループだけ残し、
+ * さらに余剰を削って（不要アイテムを外す / より小さいアイテムと入れ替える）
+ * 下の段へ回せる金額を増やす。
+ */
+function keepCheapestGroups(
+  input: BundleItem[],
+  full: BundleOptimizationResult,
+  k: number,
+  deadline: number,
+  rules: GroupRules
+): BundleOptimizationResult {
+  const kept = [...full.groups]
+    .sort((a, b) => a.total - b.total)
+    .slice(0, k)
+    .map((g) => ({ total: g.total, items: [...g.items] }));
+
+  const used = new Set(kept.flatMap((g) => g.items.map((it) => it.position)));
+  const pool = input.filter((it) => !used.has(it.position));
+  tightenGroups(kept, pool, full.threshold, deadline, rules);
+
+  const optimal = k >= full.totalGifts && full.optimal;
+  return continueTrace(
+    "keepCheapestGroups",
+    full,
+    finalizeResult(input, kept, full.threshold, optimal, full.upperBound)
+  );
+}
+
+function tierValue(spec: GiftTierSpec): number {
+  return spec.value ?? spec.threshold;
+}
+
+/** 大きいほど良いスコア列（辞書式比較） */
+function scoreTierPlan(
+  plan: BundleOptimizationResult[],
+  specs: GiftTierSpec[],
+  objective: TierObjective
+): number[] {
+  const counts = plan.map((r) => r.totalGifts);
+  const totalGifts = counts.reduce((s, c) => s + c, 0);
+
+  switch (objective) {
+    case "totalGifts":
+      return [totalGifts, ...counts];
+    case "weighted":
+      return [
+        counts.reduce((s, c, p) => s + c * tierValue(specs[p]), 0),
+        totalGifts,
+        ...counts,
+      ];
+    default:
+      return counts;
+  }
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import type { BundleItem, BundleOptimizationResult } from "~/lib/optimizer";
+import { findRemovableItems, suggestTopUp } from "~/lib/optimizer";
+
+/** グループの中身から単段の結果を作る（集計は groups から計算） */
+function tier(
+  threshold: number,
+  groups: BundleItem[][]
+): BundleOptimizationResult {
+  const bundles = groups.map((items) => ({
+    total: items.reduce((s, it) => s + it.amount, 0),
+    items,
+  }));
+  const covered = bundles.reduce((s, g) => s + g.total, 0);
+  return {
+    groups: bundles,
+    leftover: [],
+    totalGifts: bundles.length,
+    threshold,
+    totalAmount: covered,
+    coveredAmount: covered,
+    optimal: true,
+    upperBound: bundles.length,
+    gap: 0,
+  };
+}
+
+const big = { amount: 1000, position: 1 };
+const spare = { amount: 200, position: 2 };
+const unused = { amount: 300, position: 3 };
+
+/** 門檻 1000：{1000, 200} の1グループ（200 は余剰）と、未使用の 300 */
+const plan = { tiers: [tier(1000, [[big, spare]])], leftover: [unused] };
+
+describe("suggestTopUp", () => {
+  it("未使用と余剰で足りない分を追加額にする", () => {
+    expect(suggestTopUp(plan)).toEqual({
+      tierIndex: 0,
+      threshold: 1000,
+      topUp: 500,
+      candidates: [],
+      items: [spare, unused],
+      borrowed: [spare],
+      totalGifts: 2,
+    });
+  });
+
+  it("catalog があれば足りない分を埋める最安の組み合わせを選ぶ", () => {
+    const one = { amount: 400, maxQuantity: 1 };
+    const small = { amount: 180, maxQuantity: 3 };
+    const suggestion = suggestTopUp(plan, [one, small]);
+    // 500 以上：180×3 = 540 が 400 + 180 = 580 より安い
+    expect(suggestion?.topUp).toBe(540);
+    expect(suggestion?.candidates).toEqual([small, small, small]);
+  });
+
+  it("どう組んでも届かない・maxGifts に達した段には提案しない", () => {
+    expect(suggestTopUp(plan, [{ amount: 100, maxQuantity: 2 }])).toBeNull();
+    expect(
+      suggestTopUp(plan, [], [{ threshold: 1000, maxGifts: 1 }])
+    ).toBeNull();
+  });
+
+  it("同額なら threshold の高い段を選ぶ", () => {
+    // どちらの段も 1000 の候補を1個買う
+    const suggestion = suggestTopUp(
+      { tiers: [tier(1000, []), tier(500, [])], leftover: [] },
+      [{ amount: 1000 }]
+    );
+    expect(suggestion).toMatchObject({ tierIndex: 0, topUp: 1000 });
+  });
+});
+
+describe("findRemovableItems", () => {
+  it("未使用と、外しても threshold を割らないアイテムを集める", () => {
+    expect(findRemovableItems(plan)).toEqual({
+      items: [spare, unused],
+      savings: 500,
+      totalGifts: 1,
+    });
+  });
+
+  it("同じ groupKey のアイテムはまとめて残す", () => {
+    const keyed = [
+      { ...big, groupKey: "set" },
+      { ...spare, groupKey: "set" },
+    ];
+    expect(
+      findRemovableItems({ tiers: [tier(1000, [keyed])], leftover: [unused] })
+        .items
+    ).toEqual([unused]);
+  });
+
+  it("minItemsPerGroup を割るなら外さない", () => {
+    expect(findRemovableItems(plan, { minItemsPerGroup: 2 }).items).toEqual([
+      unused,
+    ]);
+  });
+});
@@ -0,0 +1,319 @@
+// top-up.ts
+// 結果に対する「あと $X で景品がもう1個」（suggestTopUp）と「買わなくてよいアイテム」（findRemovableItems）。
+
+import { trimGroupInto } from "~/lib/optimizer/local-moves";
+import type { GroupRules } from "~/lib/optimizer/rules";
+import {
+  buildGroupRules,
+  countOf,
+  expandBlocks,
+  NO_RULES,
+  sizeOf,
+} from "~/lib/optimizer/rules";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  GiftTierSpec,
+  GroupConstraints,
+  RemovableItems,
+  TopUpCandidate,
+  TopUpSuggestion,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/** 部分和 DP の計算量の上限（アイテム数 × 表の大きさ）。超える分は小さいアイテムから捨てる */
+const TOP_UP_DP_LIMIT = 20_000_000;
+/** 部分和 DP の表の要素数の上限。金額が大きいときは丸める単位を粗くしてこの中に収める */
+const TOP_UP_TABLE_LIMIT = 2_000_000;
+
+/** 合計 size までの表を TOP_UP_TABLE_LIMIT に収める金額の単位 */
+function tableUnit(size: number): number {
+  return Math.max(1, Math.ceil(size / TOP_UP_TABLE_LIMIT));
+}
+
+/**
+ * 結果（optimizeTieredBundles の結果、または { tiers: [単段の結果], leftover }）に対して、
+ * 景品数を1個増やすのに必要な最小の追加購入額を探す。
+ * - 未使用と、各グループから外しても threshold を割らないアイテム（余剰）を集め、
+ *   threshold 未満で最大になる組み合わせを部分和 DP で選ぶ。足りない分が追加額
+ * - catalog を渡すと、その候補（maxQuantity まで複数個買ってもよい）で足りない分を埋める
+ *   最安の組み合わせを選ぶ
+ * specs（plan.tiers と同順）を渡すと、maxGifts に達している段には足さない。
+ * 既存グループの組み替えまではしないので、最小とは限らない（目安）。
+ * 点数・groupKey・exclusiveKey などの制約も見ない。
+ */
+export function suggestTopUp(
+  plan: { tiers: BundleOptimizationResult[]; leftover: BundleItem[] },
+  catalog: TopUpCandidate[] = [],
+  specs: GiftTierSpec[] = []
+): TopUpSuggestion | null {
+  // 余剰を外す（groups はコピーして元の結果は変えない）
+  const pool = [...plan.leftover];
+  const borrowed = new Set<number>();
+  for (const tier of plan.tiers) {
+    for (const g of tier.groups) {
+      const copy = { total: g.total, items: [...g.items] };
+      const before = pool.length;
+      trimGroupInto(copy, pool, tier.threshold, NO_RULES);
+      for (const it of pool.slice(before)) borrowed.add(it.position);
+    }
+  }
+  const candidates = catalog.filter(
+    (c) => Number.isFinite(c.amount) && c.amount > 0 && c.maxQuantity !== 0
+  );
+  const totalGifts = plan.tiers.reduce((s, r) => s + r.totalGifts, 0);
+
+  let best: TopUpSuggestion | null = null;
+  plan.tiers.forEach((tier, tierIndex) => {
+    const threshold = tier.threshold;
+    if (threshold <= 0) return;
+    const maxGifts = specs[tierIndex]?.maxGifts;
+    if (maxGifts !== undefined && tier.totalGifts >= maxGifts) return;
+
+    const items = closestSubsetBelow(pool, threshold);
+    const need = Math.max(
+      0,
+      threshold - items.reduce((s, it) => s + it.amount, 0)
+    );
+    const picked = candidates.length ? cheapestCover(candidates, need) : [];
+    if (!picked) return;
+
+    const topUp = candidates.length
+      ? picked.reduce((s, c) => s + c.amount, 0)
+      : need;
+    // 同額なら threshold の高い段（景品が良いはず）を優先
+    if (
+      best &&
+      (topUp > best.topUp ||
+        (topUp === best.topUp && threshold <= best.threshold))
+    ) {
+      return;
+    }
+    best = {
+      tierIndex,
+      threshold,
+      topUp,
+      candidates: picked,
+      items: items.sort((a, b) => a.position - b.position),
+      borrowed: items.filter((it) => borrowed.has(it.position)),
+      totalGifts: totalGifts + 1,
+    };
+  });
+  return best;
+}
+
+/**
+ * 合計が threshold 未満で最大になる部分集合（threshold 以上にできるならそれ）を返す。
+ * DP が重すぎるときは大きいアイテムから使える分だけで解く。
+ * threshold が大きいときは金額を unit 単位に切り捨てて解くので、最大とは限らない。
+ */
+function closestSubsetBelow(
+  items: BundleItem[],
+  threshold: number
+): BundleItem[] {
+  // 切り捨てなので、丸めた合計が cap に届けば実際の合計も threshold 以上
+  const unit = tableUnit(threshold);
+  const cap = Math.ceil(threshold / unit);
+  const usable = [...items]
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, Math.max(1, Math.floor(TOP_UP_DP_LIMIT / cap)));
+
+  // 合計 s（cap 以上は cap にまとめる）に最初に届いたアイテム via[s] と、その直前の合計 from[s]
+  const via = new Int32Array(cap + 1).fill(-1);
+  const from = new Int32Array(cap + 1);
+  const reached = new Uint8Array(cap + 1);
+  reached[0] = 1;
+  usable.forEach((it, idx) => {
+    const amt = Math.floor(it.amount / unit);
+    for (let s = cap - 1; s >= 0; s--) {
+      if (!reached[s]) continue;
+      const next = Math.min(cap, s + amt);
+      if (reached[next]) continue;
+      reached[next] = 1;
+      via[next] = idx;
+      from[next] = s;
+    }
+  });
+
+  let s = cap;
+  while (!reached[s]) s--;
+  const picked: BundleItem[] = [];
+  while (s > 0) {
+    picked.push(usable[via[s]]);
+    s = from[s];
+  }
+  return picked;
+}
+
+/**
+ * 合計 need 以上になる候補の組み合わせ（maxQuantity まで重複可）のうち最安のもの。
+ * need が 0 なら空、どう組んでも届かなければ null。
+ * need が大きいときは金額を unit 単位に切り捨てて解き、それでも DP が重すぎるときは
+ * greedyCover で埋めるので、最安とは限らない。
+ */
+function cheapestCover(
+  candidates: TopUpCandidate[],
+  need: number
+): TopUpCandidate[] | null {
+  if (need <= 0) return [];
+  // 切り捨てなので、丸めた合計が target に届けば実際の合計も need 以上
+  const unit = tableUnit(
+    need + Math.max(0, ...candidates.map((c) => c.amount))
+  );
+  const target = Math.ceil(need / unit);
+  // unit 未満の候補は丸めると 0 になるので DP では使わない
+  const usable = candidates.filter((c) => Math.floor(c.amount / unit) > 0);
+  // need を超えるのに要る個数より多くは要らない
+  const counts = usable.map((c) =>
+    Math.min(
+      c.maxQuantity ?? Infinity,
+      Math.ceil(target / Math.floor(c.amount / unit))
+    )
+  );
+  const copyCount = counts.reduce((s, n) => s + n, 0);
+  if (!copyCount) return greedyCover(candidates, need);
+  const maxAmount = Math.max(...usable.map((c) => Math.floor(c.amount / unit)));
+  const limit = target + maxAmount;
+  if (copyCount * limit > TOP_UP_DP_LIMIT) {
+    return greedyCover(candidates, need);
+  }
+
+  // 1個ずつに展開して 0/1 の部分和にする
+  const copies = usable.flatMap((c, i) =>
+    Array.from({ length: counts[i] }, () => c)
+  );
+  const amounts = copies.map((c) => Math.floor(c.amount / unit));
+  const via = new Int32Array(limit + 1).fill(-1);
+  const from = new Int32Array(limit + 1);
+  const reached = new Uint8Array(limit + 1);
+  reached[0] = 1;
+  amounts.forEach((amt, idx) => {
+    for (let s = limit - amt; s >= 0; s--) {
+      if (!reached[s] || reached[s + amt]) continue;
+      reached[s + amt] = 1;
+      via[s + amt] = idx;
+      from[s + amt] = s;
+    }
+  });
+
+  let s = target;
+  while (s <= limit && !reached[s]) s++;
+  if (s > limit) return greedyCover(candidates, need);
+  const picked: TopUpCandidate[] = [];
+  while (s > 0) {
+    picked.push(copies[via[s]]);
+    s = from[s];
+  }
+  return picked.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * cheapestCover の代わり。大きい候補から need を超えない分だけ取り、
+ * 残りは残りを超える候補のうち一番安いもので埋める。届かなければ null。
+ */
+function greedyCover(
+  candidates: TopUpCandidate[],
+  need: number
+): TopUpCandidate[] | null {
+  const picked: TopUpCandidate[] = [];
+  const left = new Map<TopUpCandidate, number>();
+  let rest = need;
+  for (const c of [...candidates].sort((a, b) => b.amount - a.amount)) {
+    const quantity = c.maxQuantity ?? Infinity;
+    const take = Math.min(quantity, Math.floor(rest / c.amount));
+    for (let i = 0; i < take; i++) picked.push(c);
+    rest -= take * c.amount;
+    left.set(c, quantity - take);
+  }
+  if (rest > 0) {
+    const last = candidates
+      .filter((c) => left.get(c)! > 0 && c.amount >= rest)
+      .reduce<TopUpCandidate | null>(
+        (a, b) => (a && a.amount <= b.amount ? a : b),
+        null
+      );
+    if (!last) return null;
+    picked.push(last);
+  }
+  return picked.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * 結果のグループはそのままに、買わなくても景品数が変わらないアイテムを集める。
+ * 未使用はすべて、グループからは「抜いても threshold を割らない」組のうち合計が最大のもの
+ * （removeMostInto）を外す。同じ groupKey / SKU（keepSkuTogether）のブロックはまとめて外すか残すかで、
+ * minItemsPerGroup も守る。グループを固定したうえでの最大なので、組み替えればもっと省けることはある。
+ */
+export function findRemovableItems(
+  plan: { tiers: BundleOptimizationResult[]; leftover: BundleItem[] },
+  constraints?: GroupConstraints
+): RemovableItems {
+  const items = [...plan.leftover];
+  for (const tier of plan.tiers) {
+    for (const g of tier.groups) {
+      const { rules, items: blocked } = buildGroupRules(g.items, constraints);
+      const removed: BundleItem[] = [];
+      removeMostInto(
+        { total: g.total, items: blocked },
+        removed,
+        tier.threshold,
+        rules
+      );
+      items.push(...expandBlocks(removed, rules));
+    }
+  }
+
+  return {
+    items: items.sort((a, b) => a.position - b.position),
+    savings: items.reduce((s, it) => s + it.amount, 0),
+    totalGifts: plan.tiers.reduce((s, r) => s + r.totalGifts, 0),
+  };
+}
+
+/**
+ * 抜いても threshold を割らず、点数も minItems を割らないアイテムの組のうち、合計が最大のものを removed に移す。
+ * 外す合計 s（余剰以下）ごとに「ちょうど s を外すのに要る最少の点数」を部分和 DP で求め、
+ * 点数の余裕に収まる最大の s を選ぶ。表が TOP_UP_DP_LIMIT を超えるときは trimGroupInto（大きい順）で外す。
+ */
+function removeMostInto(
+  group: WorkingGroup,
+  removed: BundleItem[],
+  threshold: number,
+  rules: GroupRules
+) {
+  // 金額は整数なので、余剰の端数は外せる額に関係ない
+  const slack = Math.floor(group.total - threshold);
+  const spare = countOf(group.items, rules) - rules.minItems;
+  const items = group.items.filter((it) => it.amount <= slack);
+  if (!items.length || spare <= 0) return;
+  const width = slack + 1;
+  if (items.length * width > TOP_UP_DP_LIMIT) {
+    trimGroupInto(group, removed, threshold, rules);
+    return;
+  }
+
+  // fewest[s]: ちょうど s を外す最少の点数。took[i * width + s]: そのとき items[i] を外したか
+  const fewest = new Float64Array(width).fill(Infinity);
+  fewest[0] = 0;
+  const took = new Uint8Array(items.length * width);
+  items.forEach((it, i) => {
+    const size = sizeOf(it, rules);
+    for (let s = slack; s >= it.amount; s--) {
+      const count = fewest[s - it.amount] + size;
+      if (count >= fewest[s]) continue;
+      fewest[s] = count;
+      took[i * width + s] = 1;
+    }
+  });
+
+  let s = slack;
+  while (fewest[s] > spare) s--;
+  for (let i = items.length - 1; i >= 0 && s > 0; i--) {
+    if (!took[i * width + s]) continue;
+    const it = items[i];
+    group.items.splice(group.items.indexOf(it), 1);
+    group.total -= it.amount;
+    removed.push(it);
+    s -= it.amount;
+  }
+}
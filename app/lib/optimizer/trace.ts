@@ -0,0 +1,105 @@
+// trace.ts
+// options.trace 用に、解を変えた手の前後の状態を写し取る。
+
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  SolverMove,
+  SolverMoveKind,
+  WorkingGroup,
+} from "~/lib/optimizer/types";
+
+/** trace 用に写し取った状態（groups は全グループの position 昇順） */
+type TraceState = { groups: number[][]; poolAmount: number };
+
+export function captureState(
+  groups: WorkingGroup[],
+  pool: BundleItem[]
+): TraceState {
+  return {
+    groups: groups.map((g) =>
+      g.items.map((it) => it.position).sort((a, b) => a - b)
+    ),
+    poolAmount: pool.reduce((s, it) => s + it.amount, 0),
+  };
+}
+
+/** items のうち groups に入っていないものを pool とみなす */
+export function captureResultState(
+  items: BundleItem[],
+  groups: WorkingGroup[]
+): TraceState {
+  const used = new Set(groups.flatMap((g) => g.items.map((it) => it.position)));
+  return captureState(
+    groups,
+    items.filter((it) => !used.has(it.position))
+  );
+}
+
+/**
+ * 前後の状態から1手を組み立てる。グループは中身で突き合わせるので、
+ * 並び順が変わっただけのグループは「変わった」に入らない。
+ */
+export function describeMove(
+  kind: SolverMoveKind,
+  before: TraceState,
+  after: TraceState
+): SolverMove {
+  const keyOf = (g: number[]) => g.join(",");
+  const beforeKeys = new Set(before.groups.map(keyOf));
+  const afterKeys = new Set(after.groups.map(keyOf));
+  const removed = before.groups.filter((g) => !afterKeys.has(keyOf(g)));
+  const added = after.groups.filter((g) => !beforeKeys.has(keyOf(g)));
+
+  // 片側にしかいない（pool との出入り）か、前後で一緒のアイテムが1つも残っていないものを「移った」とする
+  const partners = (groups: number[][]) =>
+    new Map(
+      groups.flatMap((g) =>
+        g.map((position) => [position, g.filter((p) => p !== position)])
+      )
+    );
+  const from = partners(removed);
+  const to = partners(added);
+  const positions = [...new Set([...from.keys(), ...to.keys()])]
+    .filter((position) => {
+      const a = from.get(position);
+      const b = to.get(position);
+      if (!a || !b) return true;
+      return a.length > 0 && b.length > 0 && !a.some((p) => b.includes(p));
+    })
+    .sort((a, b) => a - b);
+
+  return {
+    kind,
+    positions,
+    before: {
+      gifts: before.groups.length,
+      poolAmount: before.poolAmount,
+      groups: removed,
+    },
+    after: {
+      gifts: after.groups.length,
+      poolAmount: after.poolAmount,
+      groups: added,
+    },
+  };
+}
+
+/**
+ * 後処理（段の絞り直し・詰め直し）で from が result に変わったとき、from の trace に1手足して result に付ける。
+ * from に trace がなければ（記録していなければ）何もしない。グループが変わっていなければ手は足さない。
+ */
+export function continueTrace(
+  kind: SolverMoveKind,
+  from: BundleOptimizationResult,
+  result: BundleOptimizationResult
+): BundleOptimizationResult {
+  if (!from.trace) return result;
+  const stateOf = (r: BundleOptimizationResult): TraceState => ({
+    groups: captureState(r.groups, []).groups,
+    poolAmount: r.totalAmount - r.coveredAmount,
+  });
+  const move = describeMove(kind, stateOf(from), stateOf(result));
+  const changed = move.before.groups.length || move.after.groups.length;
+  return { ...result, trace: changed ? [...from.trace, move] : from.trace };
+}
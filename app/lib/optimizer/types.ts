@@ -0,0 +1,354 @@
+// types.ts
+// 最適化の入出力の型。WorkingGroup だけは内部用（index.ts からは出さない）。
+
+/** 商品名などの表示用情報。最適化では一切参照せず、そのまま結果に引き継ぐ */
+export type BundleItemMeta = {
+  name?: string;
+  sku?: string;
+  note?: string;
+};
+
+export type BundleItem = {
+  amount: number;
+  position: number; // 一意推奨（同額複数でも区別できる）
+  meta?: BundleItemMeta;
+  /** 同じ groupKey のアイテムは必ず同じグループに入れる（まとめて未使用になるのは可） */
+  groupKey?: string;
+  /** 別の exclusiveKey を持つアイテムとは同じグループにしない（キーなしはどれとも組める） */
+  exclusiveKey?: string;
+};
+
+export type BundleGroup = {
+  total: number;
+  items: BundleItem[];
+};
+
+/** 制約のせいで使えなかったアイテム・作れなかった景品の報告 */
+export type ConstraintIssue =
+  | {
+      /** 必ず一緒に扱うまとまり（groupKey / SKU）に別々の exclusiveKey が混ざっている。まとまりごと未使用 */
+      kind: "conflictingExclusiveKeys";
+      positions: number[];
+      exclusiveKeys: string[];
+    }
+  | {
+      /** 必ず一緒に扱うまとまりが maxItemsPerGroup を超えている。まとまりごと未使用 */
+      kind: "blockTooLarge";
+      positions: number[];
+      size: number;
+      maxItems: number;
+    }
+  | {
+      /** 制約なしなら（少なくとも）withoutConstraints 個作れた */
+      kind: "giftsLost";
+      withConstraints: number;
+      withoutConstraints: number;
+    };
+
+export type BundleOptimizationResult = {
+  groups: BundleGroup[];
+  leftover: BundleItem[];
+  totalGifts: number;
+  threshold: number;
+  totalAmount: number;
+  coveredAmount: number;
+  /** giftsが理論上の最大であると証明できたか（exactで探索完了 or 上界に一致） */
+  optimal: boolean;
+  /** 景品数の上界（これ以上は絶対に作れない数）。optimal なら totalGifts と一致 */
+  upperBound: number;
+  /** upperBound - totalGifts（0なら取りこぼしなし） */
+  gap: number;
+  /** 制約（constraints / groupKey / exclusiveKey）つきで解いたときだけ入る */
+  constraintIssues?: ConstraintIssue[];
+  /** options.trace を指定したときだけ入る（パターン解法で解いた段には入らない） */
+  trace?: SolverMove[];
+};
+
+/**
+ * trace に記録する手の種類。
+ * 局所改善の各手は関数名のまま、search は strategy の探索、solveExact は分枝限定法、
+ * keepCheapestGroups は段の景品数を絞り直したもの（掃引・maxGifts）、secondaryObjective は詰め直し。
+ */
+export type SolverMoveKind =
+  | "buildInitialSolution"
+  | "createGroupFromPool"
+  | "donateOneItem"
+  | "swapItemBetweenGroupAndPool"
+  | "directDonateToComplete"
+  | "search"
+  | "solveExact"
+  | "keepCheapestGroups"
+  | "secondaryObjective";
+
+export type SolverMoveState = {
+  /** その時点の完成グループ数 */
+  gifts: number;
+  /** その時点の未使用（pool）の合計 */
+  poolAmount: number;
+  /** この手で変わったグループの中身（position 昇順）。before は変わる前、after は変わった後 */
+  groups: number[][];
+};
+
+/** 解を変えた1手（変えなかった手は記録しない） */
+export type SolverMove = {
+  kind: SolverMoveKind;
+  /** グループ間・pool との間で移ったアイテムの position */
+  positions: number[];
+  before: SolverMoveState;
+  after: SolverMoveState;
+};
+
+export type OptimizeMode = "heuristic" | "exact";
+
+/** 同一金額の商品を個数で表した1行 */
+export type QuantityRow = { amount: number; quantity: number };
+
+/** 1グループ分の組み合わせ（例: 2×1400 + 1×300）と、それを何グループ作るか */
+export type BundlePattern = {
+  /** amount 昇順 */
+  items: QuantityRow[];
+  total: number;
+  multiplicity: number;
+};
+
+export type PatternOptimizationResult = {
+  patterns: BundlePattern[];
+  leftover: QuantityRow[];
+  totalGifts: number;
+  threshold: number;
+  totalAmount: number;
+  coveredAmount: number;
+  optimal: boolean;
+  upperBound: number;
+  gap: number;
+};
+
+export type OptimizeOptions = {
+  /** 局所改善の最大反復回数（未指定なら items.length * 4 を上限にしつつ cap もかける） */
+  maxImproveIters?: number;
+  /** poolのソートを何回に1回やり直すか（寄付で乱れたときの再ソート頻度） */
+  resortEvery?: number;
+  /** trueなら完成グループの余剰から「直接」未達を完成させる改善も試す */
+  enableDirectDonate?: boolean;
+  /** "exact" なら貪欲解を初期解にして分枝限定法で最大化を試みる（既定は "heuristic"） */
+  mode?: OptimizeMode;
+  /** exact探索で展開するノード数の上限（超えたら打ち切り、optimal=false） */
+  nodeLimit?: number;
+  /** 初期解・局所改善・exact探索・複数段の掃引で共有する時間予算（ms）。超えたら打ち切り、それまでの最良解を返す */
+  timeBudgetMs?: number;
+  /**
+   * これを超える点数はパターン（同額まとめ）で解く（既定 MAX_ITEMS）。
+   * 1点ずつの局所改善は点数の2乗以上で重くなるため。
+   */
+  unitItemLimit?: number;
+  /**
+   * timeBudgetMs を測る時計（既定は Date.now）。
+   * Cloudflare Workers では同期処理の間 Date.now() が進まないので、API は createStepClock を渡す。
+   */
+  clock?: () => number;
+  /** 最良解が更新されたときの途中経過通知（Web Worker から進捗を送る用） */
+  onProgress?: (progress: OptimizeProgress) => void;
+  /** 1回の会計（=1グループ）ごとの制約。指定時はパターン解法を使わずブロック単位で解く */
+  constraints?: GroupConstraints;
+  /** 景品数を最大化したあと、同じ景品数のまま何を詰めるか（未指定なら詰めない） */
+  secondaryObjective?: SecondaryObjective;
+  /**
+   * 局所改善で止まったあとに、乱数を使って先を探すか（既定 "greedy" = 探さない）。
+   * 1点ずつ解く場合（unitItemLimit 以下）だけ使う。
+   */
+  strategy?: SearchStrategy;
+  /** strategy の乱数の種（既定 1）。入力・seed・searchSteps が同じなら、時間切れでない限り同じ結果になる */
+  seed?: number;
+  /** true なら各段の結果に trace（どの手で解が変わったか）を付ける。デバッグ・説明用 */
+  trace?: boolean;
+  /**
+   * threshold 1つを解くときの strategy の試行回数（restarts は作り直しの回数、annealing は1手の回数）。
+   * 既定は timeBudgetMs から決める（時間ではなく回数で決めるので、マシンの速さで結果が変わらない）。
+   * timeBudgetMs は安全のための上限で、使い切ったら回数の途中でも打ち切り、結果の timedOut で知らせる
+   * （その場合だけ再現しない）。再現したい呼び出し側は searchSteps を明示し、予算に余裕を持たせる。
+   */
+  searchSteps?: number;
+};
+
+/**
+ * - "greedy": 貪欲＋局所改善のみ（最初の局所解で止まる）
+ * - "restarts": 並び順を乱数で揺らして初期解から作り直し、最良を残す
+ * - "annealing": アイテムの移動・交換による焼きなましで、全グループ＋1つを threshold に届かせることを狙う
+ */
+export type SearchStrategy = "greedy" | "restarts" | "annealing";
+
+/**
+ * - "minOvershoot": 各グループの threshold 超過の合計を減らす
+ * - "maxLeftover": 未使用（次回に回せる分）の合計を増やす
+ * - "minCheckouts": 未使用を既存の会計に混ぜて、未使用だけの会計をなくす
+ */
+export type SecondaryObjective =
+  | "minOvershoot"
+  | "maxLeftover"
+  | "minCheckouts";
+
+/** 1回の会計（=1グループ）に対する制約 */
+export type GroupConstraints = {
+  /** 1グループに入れられる最大点数 */
+  maxItemsPerGroup?: number;
+  /** 1グループに最低限必要な点数（threshold に届いても足りなければ未完成扱い） */
+  minItemsPerGroup?: number;
+  /** true なら同じ meta.sku の全点を同じグループに入れる（まとめて未使用になるのは可） */
+  keepSkuTogether?: boolean;
+};
+
+export type OptimizeProgress = {
+  /** その時点で見つかっている最良解の景品数（複数段なら合計） */
+  bestGifts: number;
+  elapsedMs: number;
+};
+
+export type GiftTierSpec = {
+  threshold: number;
+  /** 景品1個の価値（objective: "weighted" で使用。未指定なら threshold） */
+  value?: number;
+  /** この段で作れる景品の上限（在庫・お一人様○点まで）。超える分の金額は下の段へ回す */
+  maxGifts?: number;
+};
+
+/**
+ * 複数段の比較基準
+ * - lexicographic: threshold の高い段から順に数を優先（従来の「A優先→余りでB」）
+ * - totalGifts: 景品の総数を優先（同数なら lexicographic）
+ * - weighted: 段ごとの value の合計を優先（同値なら totalGifts → lexicographic）
+ */
+export type TierObjective = "lexicographic" | "totalGifts" | "weighted";
+
+export type TieredOptimizeOptions = OptimizeOptions & {
+  objective?: TierObjective;
+};
+
+export type TieredOptimizationResult = {
+  /** 入力 tiers と同順 */
+  tiers: BundleOptimizationResult[];
+  /** どの段にも使われなかったアイテム */
+  leftover: BundleItem[];
+  totalGifts: number;
+  totalValue: number;
+  totalAmount: number;
+  coveredAmount: number;
+  /** 全段合計の景品数の上界（最も低い threshold で数えた場合） */
+  upperBound: number;
+  gap: number;
+  /**
+   * timeBudgetMs を使い切った（掃引・分枝限定法などを途中で打ち切った可能性がある）。
+   * このときは実行するマシンの速さで結果が変わりうる（options.clock に createStepClock を渡したときは変わらない）
+   */
+  timedOut: boolean;
+  /** 制約（constraints / groupKey / exclusiveKey）つきで解いたときだけ入る */
+  constraintIssues?: ConstraintIssue[];
+};
+
+/** 1店舗分の入力（店舗ごとに会計・しきい値が別） */
+export type StoreSpec = {
+  items: BundleItem[];
+  tiers: GiftTierSpec[];
+};
+
+export type MultiStoreOptimizationResult = {
+  /** 入力 stores と同順 */
+  stores: TieredOptimizationResult[];
+  totalGifts: number;
+  totalValue: number;
+  totalAmount: number;
+  coveredAmount: number;
+  upperBound: number;
+  gap: number;
+  /** どれかの店舗が timedOut */
+  timedOut: boolean;
+};
+
+/** 追加購入の候補（例: 店頭の小物）。name は表示用 */
+export type TopUpCandidate = {
+  amount: number;
+  name?: string;
+  /** 1回の提案で選べる個数の上限（未指定なら何個でも） */
+  maxQuantity?: number;
+};
+
+/** 「あと $X 買えば景品がもう1個」の提案 */
+export type TopUpSuggestion = {
+  /** 1個増える段（plan.tiers の index） */
+  tierIndex: number;
+  threshold: number;
+  /** 追加で買う金額。catalog から選んだときは候補の合計 */
+  topUp: number;
+  /** catalog から選んだ候補（同じ候補を複数回選ぶこともある）。catalog なしなら空 */
+  candidates: TopUpCandidate[];
+  /** 追加分と一緒に会計する既存アイテム（未使用、または余剰として既存グループから外せるもの） */
+  items: BundleItem[];
+  /** items のうち既存グループから外すもの（外しても元のグループは threshold を割らない） */
+  borrowed: BundleItem[];
+  /** 追加後の景品数（全段合計） */
+  totalGifts: number;
+};
+
+/** 買わなくても景品数が変わらないアイテム */
+export type RemovableItems = {
+  /** 未使用 + 各グループから外しても threshold を割らないアイテム（position 順） */
+  items: BundleItem[];
+  /** items の合計（買わずに済む金額。グループを組み替えない範囲での最大） */
+  savings: number;
+  /** 外したあとも変わらない景品数（全段合計） */
+  totalGifts: number;
+};
+
+/**
+ * validateOptimizationResult が見つけた不整合。
+ * tierIndex は結果の tiers の index（単段の結果なら 0）、groupIndex はその段の groups の index。
+ */
+export type ResultViolation =
+  | {
+      /** 入力にあるのに、どのグループにも未使用にもない */
+      kind: "missingItem";
+      position: number;
+    }
+  | {
+      /** グループ・未使用をまたいで2回以上出てくる */
+      kind: "duplicateItem";
+      position: number;
+      count: number;
+    }
+  | {
+      /** 入力にない position */
+      kind: "unknownItem";
+      position: number;
+    }
+  | {
+      /** 入力と金額が違う */
+      kind: "amountMismatch";
+      position: number;
+      amount: number;
+      expected: number;
+    }
+  | {
+      /** group.total が中身の合計と違う */
+      kind: "groupTotalMismatch";
+      tierIndex: number;
+      groupIndex: number;
+      total: number;
+      itemsTotal: number;
+    }
+  | {
+      /** 中身の合計がその段の threshold に届いていない */
+      kind: "belowThreshold";
+      tierIndex: number;
+      groupIndex: number;
+      itemsTotal: number;
+      threshold: number;
+    }
+  | {
+      /** 集計値が groups から計算した値と違う。tierIndex が null なら結果全体の集計 */
+      kind: "summaryMismatch";
+      tierIndex: number | null;
+      field: "totalGifts" | "coveredAmount" | "totalAmount";
+      reported: number;
+      expected: number;
+    };
+
+export type WorkingGroup = BundleGroup;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import type { BundleItem, BundleOptimizationResult } from "~/lib/optimizer";
+import {
+  optimizeGiftBundles,
+  optimizeTieredBundles,
+  validateOptimizationResult,
+} from "~/lib/optimizer";
+
+const items: BundleItem[] = [
+  { amount: 600, position: 1 },
+  { amount: 500, position: 2 },
+  { amount: 400, position: 3 },
+  { amount: 300, position: 4 },
+  { amount: 100, position: 5 },
+];
+
+/** 門檻 800：{1, 3} と {2, 4} のグループ、5 は未使用 */
+const valid = (): BundleOptimizationResult => ({
+  groups: [
+    { total: 1000, items: [items[0], items[2]] },
+    { total: 800, items: [items[1], items[3]] },
+  ],
+  leftover: [items[4]],
+  totalGifts: 2,
+  threshold: 800,
+  totalAmount: 1900,
+  coveredAmount: 1800,
+  optimal: true,
+  upperBound: 2,
+  gap: 0,
+});
+
+describe("validateOptimizationResult", () => {
+  it("最適化の結果には問題がない", () => {
+    expect(
+      validateOptimizationResult(items, optimizeGiftBundles(items, 800))
+    ).toEqual([]);
+    expect(
+      validateOptimizationResult(
+        items,
+        optimizeTieredBundles(items, [{ threshold: 1000 }, { threshold: 300 }])
+      )
+    ).toEqual([]);
+    expect(validateOptimizationResult(items, valid())).toEqual([]);
+  });
+
+  it("抜けたアイテム・2回出てくるアイテムを報告する", () => {
+    const result = valid();
+    result.leftover = [items[0]];
+    expect(validateOptimizationResult(items, result)).toEqual([
+      { kind: "duplicateItem", position: 1, count: 2 },
+      { kind: "missingItem", position: 5 },
+    ]);
+  });
+
+  it("門檻に届かないグループと食い違う集計を報告する", () => {
+    const result = valid();
+    result.threshold = 900;
+    result.totalGifts = 3;
+    expect(validateOptimizationResult(items, result)).toEqual([
+      {
+        kind: "belowThreshold",
+        tierIndex: 0,
+        groupIndex: 1,
+        itemsTotal: 800,
+        threshold: 900,
+      },
+      {
+        kind: "summaryMismatch",
+        tierIndex: 0,
+        field: "totalGifts",
+        reported: 3,
+        expected: 2,
+      },
+    ]);
+  });
+
+  it("入力にない・金額の違うアイテムと group.total の食い違いを報告する", () => {
+    const result = valid();
+    result.groups[0] = {
+      total: 1000,
+      items: [{ amount: 700, position: 1 }, items[2]],
+    };
+    result.leftover = [items[4], { amount: 50, position: 9 }];
+    expect(validateOptimizationResult(items, result)).toEqual([
+      { kind: "amountMismatch", position: 1, amount: 700, expected: 600 },
+      {
+        kind: "groupTotalMismatch",
+        tierIndex: 0,
+        groupIndex: 0,
+        total: 1000,
+        itemsTotal: 1100,
+      },
+      {
+        kind: "summaryMismatch",
+        tierIndex: 0,
+        field: "coveredAmount",
+        reported: 1800,
+        expected: 1900,
+      },
+      { kind: "unknownItem", position: 9 },
+    ]);
+  });
+});
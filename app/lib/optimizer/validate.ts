@@ -0,0 +1,124 @@
+// validate.ts
+// 結果がアイテムに対して正しいか（各アイテムちょうど1回・合計・門檻・集計）を確かめる。
+
+import { sanitizeItems } from "~/lib/optimizer/items";
+import type {
+  BundleItem,
+  BundleOptimizationResult,
+  ResultViolation,
+  TieredOptimizationResult,
+} from "~/lib/optimizer/types";
+
+/**
+ * 結果（optimizeGiftBundles / optimizeTieredBundles の結果）が items に対して正しいかを確かめる。
+ * - 入力の各アイテム（sanitize 後）が、全段のグループと未使用を合わせてちょうど1回ずつ出てくる
+ * - グループの total が中身の合計と一致し、その段の threshold 以上
+ * - 段ごと・全体の totalGifts / coveredAmount（と全体の totalAmount）が groups と一致
+ * 問題がなければ空配列。
+ */
+export function validateOptimizationResult(
+  items: BundleItem[],
+  result: BundleOptimizationResult | TieredOptimizationResult
+): ResultViolation[] {
+  const violations: ResultViolation[] = [];
+  const tiers = "tiers" in result ? result.tiers : [result];
+  const expected = new Map(
+    sanitizeItems(items).map((it) => [it.position, it.amount])
+  );
+
+  const seen = new Map<number, number>();
+  const visit = (item: BundleItem) => {
+    seen.set(item.position, (seen.get(item.position) ?? 0) + 1);
+    const amount = expected.get(item.position);
+    if (amount === undefined) {
+      violations.push({ kind: "unknownItem", position: item.position });
+    } else if (amount !== item.amount) {
+      violations.push({
+        kind: "amountMismatch",
+        position: item.position,
+        amount: item.amount,
+        expected: amount,
+      });
+    }
+  };
+
+  let totalGifts = 0;
+  let coveredAmount = 0;
+  tiers.forEach((tier, tierIndex) => {
+    let tierCovered = 0;
+    tier.groups.forEach((group, groupIndex) => {
+      group.items.forEach(visit);
+      const itemsTotal = group.items.reduce((s, it) => s + it.amount, 0);
+      if (itemsTotal !== group.total) {
+        violations.push({
+          kind: "groupTotalMismatch",
+          tierIndex,
+          groupIndex,
+          total: group.total,
+          itemsTotal,
+        });
+      }
+      if (itemsTotal < tier.threshold) {
+        violations.push({
+          kind: "belowThreshold",
+          tierIndex,
+          groupIndex,
+          itemsTotal,
+          threshold: tier.threshold,
+        });
+      }
+      tierCovered += itemsTotal;
+    });
+
+    if (tier.totalGifts !== tier.groups.length) {
+      violations.push({
+        kind: "summaryMismatch",
+        tierIndex,
+        field: "totalGifts",
+        reported: tier.totalGifts,
+        expected: tier.groups.length,
+      });
+    }
+    if (tier.coveredAmount !== tierCovered) {
+      violations.push({
+        kind: "summaryMismatch",
+        tierIndex,
+        field: "coveredAmount",
+        reported: tier.coveredAmount,
+        expected: tierCovered,
+      });
+    }
+    totalGifts += tier.groups.length;
+    coveredAmount += tierCovered;
+  });
+  result.leftover.forEach(visit);
+
+  for (const [position, count] of seen) {
+    if (count > 1) violations.push({ kind: "duplicateItem", position, count });
+  }
+  for (const position of expected.keys()) {
+    if (!seen.has(position)) violations.push({ kind: "missingItem", position });
+  }
+
+  const totalAmount = [...expected.values()].reduce((s, a) => s + a, 0);
+  const summary = [
+    ["totalGifts", result.totalGifts, totalGifts],
+    ["coveredAmount", result.coveredAmount, coveredAmount],
+    ["totalAmount", result.totalAmount, totalAmount],
+  ] as const;
+  for (const [field, reported, value] of summary) {
+    // 単段の結果は段の集計と同じものなので、二重に報告しない
+    if (!("tiers" in result) && field !== "totalAmount") continue;
+    if (reported !== value) {
+      violations.push({
+        kind: "summaryMismatch",
+        tierIndex: null,
+        field,
+        reported,
+        expected: value,
+      });
+    }
+  }
+
+  return violations;
+}
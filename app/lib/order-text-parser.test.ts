@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { parseAmount, parseOrderText } from "~/lib/order-text-parser";
+
+/** 読めた行だけ [金額, 数量, 品名] にする */
+const parsed = (text: string) =>
+  parseOrderText(text).map((line) =>
+    line.ok ? [line.price, line.quantity, line.name] : line.reason
+  );
+
+describe("parseOrderText", () => {
+  it("金額と数量を x・×・単位から読み分ける", () => {
+    expect(
+      parsed(
+        [
+          "1400 x3",
+          "2 x 1400",
+          "¥2,980 ×2",
+          "1,200円 2個",
+          "3 × ¥1,400",
+          "2x $300",
+        ].join("\n")
+      )
+    ).toEqual([
+      [1400, 3, ""],
+      [1400, 2, ""],
+      [2980, 2, ""],
+      [1200, 2, ""],
+      [1400, 3, ""],
+      [300, 2, ""],
+    ]);
+  });
+
+  it("残りを品名にし、数量がなければ 1 個", () => {
+    expect(parsed("咖啡 x2 1400\nBox 1400\nBox 1400 2")).toEqual([
+      [1400, 2, "咖啡"],
+      [1400, 1, "Box"],
+      [1400, 2, "Box"],
+    ]);
+  });
+
+  it("全角の数字・記号を半角として読む", () => {
+    expect(parsed("＄１，４００ ｘ３")).toEqual([[1400, 3, ""]]);
+  });
+
+  it("行番号は元のテキストのまま、空行は返さない", () => {
+    const lines = parseOrderText("\n1400 x3\n\n300\n");
+    expect(lines.map((line) => line.line)).toEqual([2, 4]);
+  });
+
+  it("どちらが数量か決まらない行・合計の行・金額のない行は理由つきで返す", () => {
+    const lines = parseOrderText(
+      "20 x 30\n2025 禮盒 1200\n咖啡豆 500g 450\n合計 3000\n咖啡"
+    );
+    expect(lines.every((line) => !line.ok)).toBe(true);
+    expect(lines.map((line) => (line.ok ? null : line.reason))).toEqual([
+      expect.stringContaining("無法判斷"),
+      expect.stringContaining("無法判斷"),
+      expect.stringContaining("無法判斷"),
+      expect.stringContaining("合計"),
+      "找不到金額。",
+    ]);
+  });
+});
+
+describe("parseAmount", () => {
+  it("桁区切りと小数点を判別する", () => {
+    expect(parseAmount("1,400")).toBe(1400);
+    expect(parseAmount("1,400.50")).toBe(1400.5);
+    expect(parseAmount("1.400")).toBe(1400);
+    expect(parseAmount("1.400,50")).toBe(1400.5);
+    expect(parseAmount("12.5")).toBe(12.5);
+  });
+
+  it("数値でなければ NaN", () => {
+    expect(parseAmount("abc")).toBeNaN();
+    expect(parseAmount("")).toBeNaN();
+  });
+});
@@ -0,0 +1,221 @@
+// order-text-parser.ts
+// カートやチャットからコピーした注文テキスト（"1400 x3"、"2 x 1400"、"¥2,980 ×2"、"1,200円 2個" など）を
+// 1行ずつ 金額・数量・品名 に分ける。全角数字・桁区切り・通貨記号を扱う。
+// 読めなかった行も理由つきで返す（画面で確認してから反映するため）。
+
+export type OrderTextLine = {
+  /** 貼り付けたテキスト上の行番号（1 から） */
+  line: number;
+  text: string;
+} & (
+  | { ok: true; price: number; quantity: number; name: string }
+  | { ok: false; reason: string }
+);
+
+/** 金額の前につく記号（長いものから） */
+const CURRENCY_PREFIX = /(?:NT\$|US\$|HK\$|[$¥€£₩]|TWD|JPY|USD|RMB)\s*$/i;
+/** 金額の後につく単位 */
+const CURRENCY_SUFFIX = /^\s*(?:元|円|圓|块|塊|TWD|JPY|USD|RMB)/i;
+/** 数量の前につく見出し */
+const QUANTITY_PREFIX = /(?:qty|數量|数量)\s*[:：]?\s*$/i;
+/** 掛け算の記号（"Box 1400" の x は品名の一部なので、英字の直後は除く） */
+const TIMES_BEFORE = /(?<![a-z])[x*×]\s*$/i;
+/** 2つの数字の間が掛け算の記号だけ（"2 x 1400"、"1400 x3"、"2x $300"） */
+const TIMES_BETWEEN = /^\s*[x*×]\s*$/i;
+/**
+ * 記号のない数字を数量とみなせる上限。「A x B」でどちらもこれ以下（またはどちらも超える）なら決めず、
+ * 記号も x もない行で金額の後ろの数字がこれを超えるなら（"2025 禮盒 1200"）その行は読まない
+ */
+const MAX_PLAIN_QUANTITY = 99;
+/** 数量の後につく単位 */
+const QUANTITY_SUFFIX =
+  /^\s*(?:個|件|點|点|份|組|组|盒|瓶|包|本|枚|台|張|张|pcs?\b)/i;
+/** 合計・運費などの行は商品として読まない */
+const SUMMARY_LINE =
+  /合計|合计|小計|小计|總計|总计|總額|總金額|運費|运费|送料|total|subtotal|shipping/i;
+
+/** 数字と桁区切り・小数点のかたまり */
+const NUMBER_TOKEN = /\d[\d,.]*\d|\d/g;
+
+const AMBIGUOUS_REASON = "無法判斷哪個是金額、哪個是數量，請加上 $ 或「個」。";
+
+/** 記号のない数字が数量としてありうる値か */
+function isPlainQuantity(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_PLAIN_QUANTITY;
+}
+
+export function parseOrderText(text: string): OrderTextLine[] {
+  return text.split(/\r?\n/).flatMap((raw, index) => {
+    const trimmed = raw.trim();
+    return trimmed ? [parseOrderLine(trimmed, index + 1)] : [];
+  });
+}
+
+/**
+ * "1400 x3" / "1400 x 3" → $1400 ×3、"2 x 1400" / "2x1400" → $1400 ×2、
+ * "3 × ¥1,400" → ¥1400 ×3、"2x $300" → $300 ×2、"咖啡 x2 1400" → 咖啡 $1400 ×2、
+ * "Box 1400" → Box $1400 ×1、"Box 1400 2" → Box $1400 ×2、
+ * "20 x 30"・"2025 禮盒 1200"・"咖啡豆 500g 450" → どちらが数量か決まらないので読まない
+ */
+function parseOrderLine(text: string, line: number): OrderTextLine {
+  // 全角の数字・記号（１，４００、＄、ｘ）を半角に
+  const normalized = text.normalize("NFKC");
+
+  if (SUMMARY_LINE.test(normalized)) {
+    return { line, text, ok: false, reason: "看起來是合計或運費，已略過。" };
+  }
+
+  type Token = {
+    value: number;
+    start: number;
+    end: number;
+    role: "price" | "quantity" | null;
+  };
+  const tokens: Token[] = [];
+  for (const match of normalized.matchAll(NUMBER_TOKEN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const before = normalized.slice(0, start);
+    const after = normalized.slice(end);
+    let role: Token["role"] = null;
+    let from = start;
+    let to = end;
+
+    const currencyBefore = before.match(CURRENCY_PREFIX);
+    const currencyAfter = after.match(CURRENCY_SUFFIX);
+    const quantityBefore = before.match(QUANTITY_PREFIX);
+    const quantityAfter = after.match(QUANTITY_SUFFIX);
+    if (currencyBefore || currencyAfter) {
+      role = "price";
+      from -= currencyBefore?.[0].length ?? 0;
+      to += currencyAfter?.[0].length ?? 0;
+    } else if (quantityBefore || quantityAfter) {
+      role = "quantity";
+      from -= quantityBefore?.[0].length ?? 0;
+      to += quantityAfter?.[0].length ?? 0;
+    }
+    tokens.push({ value: parseAmount(match[0]), start: from, end: to, role });
+  }
+
+  // 「A x B」はどちらかが数量。記号（通貨・単位）、x の付き方、値の大きさの順で決め、決まらなければ読まない
+  for (let i = 1; i < tokens.length; i++) {
+    const a = tokens[i - 1];
+    const b = tokens[i];
+    const between = normalized.slice(a.end, b.start);
+    if (!TIMES_BETWEEN.test(between)) continue;
+
+    let quantity: Token;
+    if (a.role && b.role) {
+      continue;
+    } else if (a.role || b.role) {
+      // 片方に記号があれば、もう片方はその逆（"3 × ¥1,400"、"2x $300"）
+      const marked = a.role ? a : b;
+      const other = marked === a ? b : a;
+      other.role = marked.role === "price" ? "quantity" : "price";
+      quantity = marked.role === "quantity" ? marked : other;
+    } else {
+      // "2x 300" は前、"1400 x3" は後ろが数量
+      const attachedToA = !/^\s/.test(between) && /\s$/.test(between);
+      const attachedToB = /^\s/.test(between) && !/\s$/.test(between);
+      const plausibleA = isPlainQuantity(a.value);
+      const plausibleB = isPlainQuantity(b.value);
+      if (attachedToA) quantity = a;
+      else if (attachedToB) quantity = b;
+      else if (plausibleA !== plausibleB) quantity = plausibleA ? a : b;
+      else return { line, text, ok: false, reason: AMBIGUOUS_REASON };
+      quantity.role = "quantity";
+      (quantity === a ? b : a).role = "price";
+    }
+    // 名前に x が残らないように、記号は数量のほうに含める
+    if (quantity === a) a.end = b.start;
+    else b.start = a.end;
+  }
+
+  // 前に数字のない "x3"（"咖啡 x2 1400"）は数量
+  for (const token of tokens) {
+    if (token.role) continue;
+    const times = normalized.slice(0, token.start).match(TIMES_BEFORE);
+    if (!times) continue;
+    token.role = "quantity";
+    token.start -= times[0].length;
+  }
+
+  let price = tokens.find((token) => token.role === "price");
+  let quantity = tokens.find((token) => token.role === "quantity");
+  const unmarked = tokens.filter((token) => token.role === null);
+  // 記号のない数字: 金額は一番大きいもの、数量はその直後の数字（"1400 2"）
+  if (!price && unmarked.length) {
+    price = unmarked.reduce((a, b) => (b.value > a.value ? b : a));
+  }
+  if (!quantity && price) {
+    quantity = unmarked.find(
+      (token) => token !== price && token.start >= price!.end
+    );
+    // 数量らしくない大きさなら、年や重さ（"2025 禮盒 1200"、"500g 450"）と区別できないので読まない
+    if (quantity && !isPlainQuantity(quantity.value)) {
+      return { line, text, ok: false, reason: AMBIGUOUS_REASON };
+    }
+  }
+
+  if (!price || !(price.value > 0)) {
+    return { line, text, ok: false, reason: "找不到金額。" };
+  }
+  const quantityValue = quantity ? quantity.value : 1;
+  if (!Number.isInteger(quantityValue) || quantityValue < 1) {
+    return { line, text, ok: false, reason: "數量不是正整數。" };
+  }
+
+  // 金額・数量として使った部分を除いた残りを品名にする
+  const used = [price, quantity]
+    .filter((token): token is Token => token !== undefined)
+    .sort((a, b) => b.start - a.start);
+  let name = normalized;
+  for (const token of used) {
+    name = name.slice(0, token.start) + " " + name.slice(token.end);
+  }
+  name = name
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-–—・:：,，、|/]+|[\s\-–—・:：,，、|/]+$/g, "");
+
+  return {
+    line,
+    text,
+    ok: true,
+    price: price.value,
+    quantity: quantityValue,
+    name,
+  };
+}
+
+/**
+ * 桁区切りと小数点を判別して数値にする。
+ * "1,400" → 1400 / "1,400.50" → 1400.5 / "1.400" → 1400 / "1.400,50" → 1400.5 / "12.5" → 12.5
+ * , と . が両方あれば後ろのほうが小数点。片方だけなら、複数回出るか、1回でちょうど3桁が続くなら桁区切り。
+ * 数値にならなければ NaN。
+ */
+export function parseAmount(raw: string): number {
+  const value = raw.normalize("NFKC").trim();
+  if (!/^\d[\d,.]*$/.test(value)) return NaN;
+
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+  let decimal: "," | "." | null = null;
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? "," : ".";
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const mark = lastComma >= 0 ? "," : ".";
+    const parts = value.split(mark);
+    decimal = parts.length === 2 && parts[1].length !== 3 ? mark : null;
+  }
+
+  const [integer, fraction = ""] =
+    decimal === null ? [value] : splitLast(value, decimal);
+  const digits = integer.replace(/[,.]/g, "");
+  if (/[,.]/.test(fraction)) return NaN;
+  return Number(fraction ? `${digits}.${fraction}` : digits);
+}
+
+function splitLast(value: string, mark: string): [string, string] {
+  const index = value.lastIndexOf(mark);
+  return [value.slice(0, index), value.slice(index + 1)];
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { planPurchases } from "~/lib/purchase-planner";
+
+const tiers = [{ threshold: 1000 }];
+
+describe("planPurchases", () => {
+  it("予算に収まる分だけ買い足す", () => {
+    // 400×3 で1個。3個目は 1200 要るので残り 600 では買わない
+    const plan = planPurchases([{ amount: 400 }], tiers, { budget: 3000 });
+    expect(plan.quantities).toEqual([6]);
+    expect(plan.spent).toBe(2400);
+    expect(plan.estimatedGifts).toBe(2);
+    expect(plan.overBudget).toBe(false);
+    expect(plan.reachedTarget).toBeNull();
+  });
+
+  it("予算を超える商品は候補にしない", () => {
+    const plan = planPurchases([{ amount: 5000 }, { amount: 500 }], tiers, {
+      budget: 2000,
+    });
+    expect(plan.quantities).toEqual([0, 4]);
+    expect(plan.estimatedGifts).toBe(2);
+  });
+
+  it("targetGifts に届いたら止める", () => {
+    const plan = planPurchases([{ amount: 600, maxQuantity: 10 }], tiers, {
+      targetGifts: 3,
+    });
+    expect(plan.quantities).toEqual([6]);
+    expect(plan.items).toHaveLength(6);
+    expect(plan.estimatedGifts).toBe(3);
+    expect(plan.reachedTarget).toBe(true);
+  });
+
+  it("在庫が尽きて届かなければ reachedTarget は false", () => {
+    const plan = planPurchases([{ amount: 600, maxQuantity: 3 }], tiers, {
+      targetGifts: 3,
+    });
+    expect(plan.quantities).toEqual([2]);
+    expect(plan.reachedTarget).toBe(false);
+  });
+
+  it("必ず買う分だけで予算を超えていれば overBudget", () => {
+    const plan = planPurchases(
+      [{ amount: 500, requiredQuantity: 5 }, { amount: 500 }],
+      tiers,
+      { budget: 1000 }
+    );
+    expect(plan.overBudget).toBe(true);
+    expect(plan.quantities).toEqual([5, 0]);
+    expect(plan.estimatedGifts).toBe(2);
+  });
+});
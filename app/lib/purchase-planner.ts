@@ -0,0 +1,262 @@
+// purchase-planner.ts
+// 商品カタログと予算（または目標の景品数）から「何を何個買うか」を決める。
+// 追加購入を何百回も試すので、画面からは optimizer.worker.ts（plan メッセージ）で動かす。
+// 決めた購入リストは通常どおり optimizeTieredBundles（Worker）に渡して会計のグループを作る。
+
+import type {
+  BundleItem,
+  BundleItemMeta,
+  GiftTierSpec,
+  TieredOptimizationResult,
+  TieredOptimizeOptions,
+  TopUpCandidate,
+  TopUpSuggestion,
+} from "~/lib/optimizer";
+import {
+  expandByQuantity,
+  MAX_TOTAL_UNITS,
+  optimizeTieredBundles,
+  suggestTopUp,
+  validateOptimizationResult,
+} from "~/lib/optimizer";
+
+/** カタログの1商品 */
+export type CatalogEntry = {
+  amount: number;
+  /** どのみち必要な数（必ず買う） */
+  requiredQuantity?: number;
+  /** 買うなら最低この数（まとめ売りなど）。0個ならこの制限はかからない */
+  minQuantity?: number;
+  /** 買える上限（在庫・限購） */
+  maxQuantity?: number;
+  meta?: BundleItemMeta;
+};
+
+/**
+ * budget か targetGifts のどちらか（両方あれば先に当たったほうで止める）。
+ * どちらもなければ必ず買う分だけにする。
+ */
+export type PlanGoal = {
+  /** 使ってよい金額の上限 */
+  budget?: number;
+  /** この景品数に届いたら止める */
+  targetGifts?: number;
+};
+
+export type PurchasePlan = {
+  /** catalog と同順の購入数 */
+  quantities: number[];
+  /** 購入数を展開したアイテム（position は catalog 順に 1 から） */
+  items: BundleItem[];
+  spent: number;
+  /**
+   * 計画時点の景品数（提案どおりにグループを足した作業用の結果の数。検証済み）。
+   * 最終的なグループは optimizeTieredBundles で作り直すので、数が違うことがある
+   */
+  estimatedGifts: number;
+  /** 必ず買う分だけで予算を超えている */
+  overBudget: boolean;
+  /** targetGifts に届いたか（targetGifts なしなら null） */
+  reachedTarget: boolean | null;
+};
+
+/** 追加購入を繰り返す回数の安全上限 */
+const MAX_PLAN_STEPS = 500;
+
+/** 必ず買う分の最初のグループを作るときの時間予算 */
+const INITIAL_BUDGET_MS = 200;
+
+/**
+ * 必ず買う分から始めて、「景品をもう1個増やす最安の追加購入」（suggestTopUp）を
+ * 予算・目標・在庫の許す限り繰り返す。1個あたりの追加額が最小の手を毎回選ぶので、
+ * 金額あたりの景品数が大きい買い方になる（厳密な最適ではない）。
+ * 予算に収まらない提案は候補を絞って聞き直し、どの候補も収まらなくなったら止める。
+ * 提案どおりの新しいグループを結果に足していくので、1手ごとに解き直しはしない。
+ * options は最初のグループを作るときに渡す（objective / constraints など）。
+ * onProgress には最初のグループのあとと、追加購入を1手決めるごとに景品数を通知する。
+ */
+export function planPurchases(
+  catalog: CatalogEntry[],
+  tiers: GiftTierSpec[],
+  goal: PlanGoal,
+  options: TieredOptimizeOptions = {}
+): PurchasePlan {
+  const { onProgress, ...inner } = options;
+  const startedAt = Date.now();
+  const quantities = catalog.map((entry) => {
+    const required = entry.requiredQuantity ?? 0;
+    return required > 0 ? Math.max(required, entry.minQuantity ?? 0) : 0;
+  });
+  const spendOf = (qs: number[]) =>
+    qs.reduce((s, q, idx) => s + q * catalog[idx].amount, 0);
+  const overBudget =
+    goal.budget !== undefined && spendOf(quantities) > goal.budget;
+
+  const initial = expandCatalog(catalog, quantities);
+  const result = optimizeTieredBundles(initial, tiers, {
+    ...inner,
+    timeBudgetMs: INITIAL_BUDGET_MS,
+  });
+  // suggestTopUp に渡す作業用の結果（groups / leftover と景品数・金額の集計だけ更新する）
+  const plan: TieredOptimizationResult = {
+    ...result,
+    tiers: result.tiers.map((r) => ({
+      ...r,
+      groups: r.groups.map((g) => ({ total: g.total, items: [...g.items] })),
+    })),
+    leftover: [...result.leftover],
+  };
+  // 作業用の結果に入っているアイテム（最初の分 + 追加分。position は通し番号）
+  const bought = [...initial];
+  const gifts = () => plan.totalGifts;
+  const report = () =>
+    onProgress?.({ bestGifts: gifts(), elapsedMs: Date.now() - startedAt });
+  report();
+  let nextPosition = initial.length + 1;
+  const open = goal.budget !== undefined || goal.targetGifts !== undefined;
+
+  for (let step = 0; open && step < MAX_PLAN_STEPS; step++) {
+    if (goal.targetGifts !== undefined && gifts() >= goal.targetGifts) break;
+
+    const { candidates, units } = buildCandidates(catalog, quantities);
+    const rest =
+      goal.budget === undefined ? Infinity : goal.budget - spendOf(quantities);
+    let pool = candidates.filter((c) => c.amount <= rest);
+    let accepted: { suggestion: TopUpSuggestion; next: number[] } | null = null;
+    // 予算・点数に収まらない提案は、いちばん高い候補を外して聞き直す（何も収まらなければ止める）
+    while (pool.length) {
+      const suggestion = suggestTopUp(plan, pool, tiers);
+      // 追加 0 円（組み替えで増やせる）は最終計算に任せる
+      if (!suggestion || !suggestion.candidates.length) break;
+
+      const next = [...quantities];
+      for (const candidate of suggestion.candidates) {
+        const { index, quantity } = units.get(candidate)!;
+        next[index] += quantity;
+      }
+      if (
+        suggestion.topUp <= rest &&
+        next.reduce((s, q) => s + q, 0) <= MAX_TOTAL_UNITS
+      ) {
+        accepted = { suggestion, next };
+        break;
+      }
+      const priciest = suggestion.candidates.reduce((a, b) =>
+        b.amount > a.amount ? b : a
+      );
+      pool = pool.filter((c) => c !== priciest);
+    }
+    if (!accepted) break;
+
+    const added: BundleItem[] = [];
+    for (const candidate of accepted.suggestion.candidates) {
+      const { index, quantity } = units.get(candidate)!;
+      const { amount, meta } = catalog[index];
+      for (let i = 0; i < quantity; i++) {
+        added.push({ amount, position: nextPosition++, meta });
+      }
+    }
+    addSuggestedGroup(plan, accepted.suggestion, added);
+    bought.push(...added);
+    quantities.splice(0, quantities.length, ...accepted.next);
+    report();
+  }
+
+  // 提案の足し方に不具合があれば、間違った景品数を返さずにエラーにする
+  const violations = validateOptimizationResult(bought, plan);
+  if (violations.length) {
+    throw new Error(
+      `採購規劃的結果未通過檢查（${violations.length} 項），請調整條件後再試一次。`
+    );
+  }
+
+  return {
+    quantities,
+    items: expandCatalog(catalog, quantities),
+    spent: spendOf(quantities),
+    estimatedGifts: gifts(),
+    overBudget,
+    reachedTarget:
+      goal.targetGifts === undefined ? null : gifts() >= goal.targetGifts,
+  };
+}
+
+/**
+ * 提案の items（未使用 + 余剰として外せるもの）と追加分で新しいグループを作る。
+ * borrowed は suggestTopUp が大きい順に外せると確かめた分の一部なので、
+ * 元のグループから抜いても threshold は割らない。
+ */
+function addSuggestedGroup(
+  plan: TieredOptimizationResult,
+  suggestion: TopUpSuggestion,
+  added: BundleItem[]
+) {
+  const used = new Set(suggestion.items.map((it) => it.position));
+  for (const tier of plan.tiers) {
+    for (const g of tier.groups) {
+      g.items = g.items.filter((it) => !used.has(it.position));
+      g.total = sumAmounts(g.items);
+    }
+  }
+  plan.leftover = plan.leftover.filter((it) => !used.has(it.position));
+
+  const items = [...suggestion.items, ...added];
+  const tier = plan.tiers[suggestion.tierIndex];
+  tier.groups.push({ total: sumAmounts(items), items });
+  tier.totalGifts++;
+
+  for (const r of plan.tiers) {
+    r.coveredAmount = r.groups.reduce((s, g) => s + g.total, 0);
+  }
+  plan.totalGifts++;
+  plan.coveredAmount = plan.tiers.reduce((s, r) => s + r.coveredAmount, 0);
+  plan.totalAmount += sumAmounts(added);
+}
+
+const sumAmounts = (items: BundleItem[]) =>
+  items.reduce((s, it) => s + it.amount, 0);
+
+function expandCatalog(
+  catalog: CatalogEntry[],
+  quantities: number[]
+): BundleItem[] {
+  return expandByQuantity(
+    catalog.map((entry, idx) => ({
+      amount: entry.amount,
+      quantity: quantities[idx],
+      meta: entry.meta,
+    }))
+  );
+}
+
+/**
+ * いまの購入数から追加できる候補を作る。まだ買っていない minQuantity つきの商品は
+ * 「minQuantity 個まとめて」を1候補にする。units は候補 → （catalog の index, 個数）
+ */
+function buildCandidates(catalog: CatalogEntry[], quantities: number[]) {
+  const candidates: TopUpCandidate[] = [];
+  const units = new Map<TopUpCandidate, { index: number; quantity: number }>();
+
+  catalog.forEach((entry, index) => {
+    const room = (entry.maxQuantity ?? Infinity) - quantities[index];
+    const pack = quantities[index] ? 1 : Math.max(1, entry.minQuantity ?? 1);
+    if (!(entry.amount > 0) || room < pack) return;
+
+    const candidate: TopUpCandidate =
+      pack > 1
+        ? {
+            amount: entry.amount * pack,
+            name: entry.meta?.name,
+            maxQuantity: 1,
+          }
+        : {
+            amount: entry.amount,
+            name: entry.meta?.name,
+            maxQuantity: Number.isFinite(room) ? room : undefined,
+          };
+    candidates.push(candidate);
+    units.set(candidate, { index, quantity: pack });
+  });
+
+  return { candidates, units };
+}
@@ -0,0 +1,278 @@
+// saved-scenarios.ts
+// 名前をつけた計算条件を Worker の KV（binding: SCENARIOS）に保存する。binding がないデプロイでは API は 503 を返す。
+// 条件は共有リンクと同じ形式（encodeScenario の文字列）で持つので、形式の版管理は scenario-url.ts に任せる。
+// 一覧は KV の metadata だけで作る（値を1件ずつ読まない）。
+// API は共有キー（Worker の secret SCENARIOS_API_TOKEN）を Authorization: Bearer で送った要求だけ通す。
+
+import type { OptimizeRequestIssue } from "~/lib/optimize-request";
+import { decodeScenario } from "~/lib/scenario-url";
+
+export const MAX_SCENARIO_NAME_LENGTH = 80;
+export const MAX_SCENARIO_NOTES_LENGTH = 2000;
+/** 共有リンクより長い条件は保存しない（KV の値の上限よりずっと小さい） */
+export const MAX_SCENARIO_LENGTH = 200_000;
+
+const KEY_PREFIX = "scenario:";
+
+/** 保存時点の計算結果（全店舗の合計） */
+export type SavedScenarioResult = {
+  totalAmount: number;
+  coveredAmount: number;
+  totalGifts: number;
+  totalValue: number;
+  gap: number;
+};
+
+export type SavedScenarioSummary = {
+  id: string;
+  name: string;
+  /** ISO 8601 */
+  updatedAt: string;
+  /** 保存時に結果があればその景品数 */
+  totalGifts: number | null;
+};
+
+export type SavedScenario = SavedScenarioSummary & {
+  notes: string;
+  /** encodeScenario の文字列 */
+  scenario: string;
+  lastResult: SavedScenarioResult | null;
+};
+
+export type SavedScenarioInput = Pick<
+  SavedScenario,
+  "name" | "notes" | "scenario" | "lastResult"
+>;
+
+export type ParseSavedScenarioResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: OptimizeRequestIssue[] };
+
+type SummaryMetadata = Omit<SavedScenarioSummary, "id">;
+
+/**
+ * /api/scenarios の要求が共有キーを持っているか確かめる。通れば null（env.SCENARIOS もある）、だめなら返す Response。
+ * KV（SCENARIOS）か token（SCENARIOS_API_TOKEN）が未設定なら誰も通さない（503）。
+ * 長さや一致した位置が時間から分からないように、SHA-256 にしてから全バイト比べる。
+ */
+export async function authorizeScenarioRequest(
+  request: Request,
+  env: Pick<Env, "SCENARIOS" | "SCENARIOS_API_TOKEN">
+): Promise<Response | null> {
+  const missing = !env.SCENARIOS
+    ? "The SCENARIOS KV namespace is not bound on this deployment."
+    : !env.SCENARIOS_API_TOKEN
+    ? "SCENARIOS_API_TOKEN is not set on this deployment."
+    : null;
+  if (missing) {
+    return Response.json(
+      { error: "not_configured", message: missing },
+      { status: 503 }
+    );
+  }
+
+  const sent = request.headers.get("Authorization")?.match(/^Bearer (.+)$/);
+  const expected = await sha256(env.SCENARIOS_API_TOKEN);
+  const actual = await sha256(sent?.[1] ?? "");
+  let diff = sent ? 0 : 1;
+  for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ actual[i];
+  if (diff === 0) return null;
+
+  return Response.json(
+    { error: "unauthorized", message: "Missing or invalid API token." },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  const data = new TextEncoder().encode(value);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export async function listSavedScenarios(
+  kv: KVNamespace
+): Promise<SavedScenarioSummary[]> {
+  const summaries: SavedScenarioSummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<SummaryMetadata>({
+      prefix: KEY_PREFIX,
+      cursor,
+    });
+    for (const key of page.keys) {
+      if (!key.metadata) continue;
+      summaries.push({
+        id: key.name.slice(KEY_PREFIX.length),
+        ...key.metadata,
+      });
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getSavedScenario(
+  kv: KVNamespace,
+  id: string
+): Promise<SavedScenario | null> {
+  return kv.get<SavedScenario>(KEY_PREFIX + id, "json");
+}
+
+/** id なしなら新規作成。あれば上書き */
+export async function putSavedScenario(
+  kv: KVNamespace,
+  input: SavedScenarioInput,
+  id: string = crypto.randomUUID()
+): Promise<SavedScenario> {
+  const saved: SavedScenario = {
+    ...input,
+    id,
+    updatedAt: new Date().toISOString(),
+    totalGifts: input.lastResult?.totalGifts ?? null,
+  };
+  await writeSavedScenario(kv, saved);
+  return saved;
+}
+
+export async function renameSavedScenario(
+  kv: KVNamespace,
+  id: string,
+  name: string
+): Promise<SavedScenario | null> {
+  const saved = await getSavedScenario(kv, id);
+  if (!saved) return null;
+
+  const renamed = { ...saved, name, updatedAt: new Date().toISOString() };
+  await writeSavedScenario(kv, renamed);
+  return renamed;
+}
+
+/** 存在しなかったら false */
+export async function deleteSavedScenario(
+  kv: KVNamespace,
+  id: string
+): Promise<boolean> {
+  if ((await kv.get(KEY_PREFIX + id)) === null) return false;
+  await kv.delete(KEY_PREFIX + id);
+  return true;
+}
+
+async function writeSavedScenario(kv: KVNamespace, saved: SavedScenario) {
+  const metadata: SummaryMetadata = {
+    name: saved.name,
+    updatedAt: saved.updatedAt,
+    totalGifts: saved.totalGifts,
+  };
+  await kv.put(KEY_PREFIX + saved.id, JSON.stringify(saved), { metadata });
+}
+
+/**
+ * 受け付ける形:
+ * { "name": "2025 週年慶", "notes": "", "scenario": "1.W1tb...", "lastResult": { "totalGifts": 3, ... } }
+ * notes と lastResult は省略可。
+ */
+export function parseSavedScenarioInput(
+  body: unknown
+): ParseSavedScenarioResult<SavedScenarioInput> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      issues: [{ path: "", message: "Request body must be a JSON object." }],
+    };
+  }
+
+  const issues: OptimizeRequestIssue[] = [];
+  const name = parseName(body.name, issues);
+
+  const notes = body.notes ?? "";
+  if (typeof notes !== "string" || notes.length > MAX_SCENARIO_NOTES_LENGTH) {
+    issues.push({
+      path: "notes",
+      message: `notes must be a string of at most ${MAX_SCENARIO_NOTES_LENGTH} characters.`,
+    });
+  }
+
+  const scenario = body.scenario;
+  if (
+    typeof scenario !== "string" ||
+    scenario.length > MAX_SCENARIO_LENGTH ||
+    !decodeScenario(scenario)
+  ) {
+    issues.push({
+      path: "scenario",
+      message: "scenario must be an encoded scenario string.",
+    });
+  }
+
+  const lastResult = parseLastResult(body.lastResult, issues);
+
+  if (issues.length) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      name,
+      notes: notes as string,
+      scenario: scenario as string,
+      lastResult,
+    },
+  };
+}
+
+/** { "name": "..." } */
+export function parseRenameInput(
+  body: unknown
+): ParseSavedScenarioResult<{ name: string }> {
+  const issues: OptimizeRequestIssue[] = [];
+  const name = parseName(isRecord(body) ? body.name : undefined, issues);
+  return issues.length ? { ok: false, issues } : { ok: true, value: { name } };
+}
+
+function parseName(raw: unknown, issues: OptimizeRequestIssue[]) {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!name || name.length > MAX_SCENARIO_NAME_LENGTH) {
+    issues.push({
+      path: "name",
+      message: `name must be a non-empty string of at most ${MAX_SCENARIO_NAME_LENGTH} characters.`,
+    });
+  }
+  return name;
+}
+
+function parseLastResult(
+  raw: unknown,
+  issues: OptimizeRequestIssue[]
+): SavedScenarioResult | null {
+  if (raw === undefined || raw === null) return null;
+
+  const fields = [
+    "totalAmount",
+    "coveredAmount",
+    "totalGifts",
+    "totalValue",
+    "gap",
+  ] as const;
+  if (
+    !isRecord(raw) ||
+    fields.some(
+      (field) => typeof raw[field] !== "number" || !Number.isFinite(raw[field])
+    )
+  ) {
+    issues.push({
+      path: "lastResult",
+      message: `lastResult must have numeric ${fields.join(", ")}.`,
+    });
+    return null;
+  }
+
+  return {
+    totalAmount: raw.totalAmount as number,
+    coveredAmount: raw.coveredAmount as number,
+    totalGifts: raw.totalGifts as number,
+    totalValue: raw.totalValue as number,
+    gap: raw.gap as number,
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import type { Scenario } from "~/lib/scenario-url";
+import {
+  DEFAULT_TIME_BUDGET_MS,
+  decodeScenario,
+  encodeScenario,
+} from "~/lib/scenario-url";
+
+const scenario: Scenario = {
+  stores: [
+    {
+      name: "商店1",
+      tiers: [
+        { label: "A", threshold: "3000", value: "500", maxGifts: "" },
+        { label: "B", threshold: "1000", value: "", maxGifts: "2" },
+      ],
+    },
+    {
+      name: "商店2",
+      tiers: [{ label: "", threshold: "800", value: "", maxGifts: "" }],
+    },
+  ],
+  items: [
+    {
+      price: "1400",
+      quantity: "3",
+      name: "咖啡",
+      sku: "C-01",
+      note: "",
+      groupKey: "",
+      exclusiveKey: "",
+      store: 0,
+    },
+    {
+      price: "300",
+      quantity: "1",
+      name: "",
+      sku: "",
+      note: "禮盒",
+      groupKey: "g",
+      exclusiveKey: "x",
+      store: 1,
+    },
+  ],
+  objective: "weighted",
+  secondaryObjective: "minCheckouts",
+  timeBudgetMs: 10000,
+  strategy: "annealing",
+  seed: "42",
+  checkoutRules: { maxItems: "5", minItems: "", keepSkuTogether: true },
+  topUpCatalog: "120\n80",
+};
+
+describe("encodeScenario / decodeScenario", () => {
+  it("エンコードして戻すと同じ入力になる", () => {
+    expect(decodeScenario(encodeScenario(scenario))).toEqual(scenario);
+  });
+
+  it("壊れている・知らない版なら null", () => {
+    const encoded = encodeScenario(scenario);
+    expect(decodeScenario("")).toBeNull();
+    expect(decodeScenario("1.%%%")).toBeNull();
+    expect(decodeScenario(`2${encoded.slice(1)}`)).toBeNull();
+    expect(decodeScenario(encoded.slice(0, -8))).toBeNull();
+  });
+
+  it("選べない時間予算・知らない選択肢は既定値にする", () => {
+    const decoded = decodeScenario(
+      encodeScenario({
+        ...scenario,
+        timeBudgetMs: 600000,
+        strategy: "bogus" as Scenario["strategy"],
+      })
+    );
+    expect(decoded?.timeBudgetMs).toBe(DEFAULT_TIME_BUDGET_MS);
+    expect(decoded?.strategy).toBe("greedy");
+  });
+});
@@ -0,0 +1,228 @@
+// scenario-url.ts
+// 計算条件（しきい値・購入行・オプション）を URL の1パラメータに詰める／戻す。
+// 形式は "<version>.<base64url(JSON)>"。JSON は入力欄の文字列をそのまま配列で持つ（キー名を省いて短くする）。
+// 形式を変えるときは SCENARIO_VERSION を上げ、古い版の読み込みは decodeScenario に残す。
+
+import type {
+  SearchStrategy,
+  SecondaryObjective,
+  TierObjective,
+} from "~/lib/optimizer";
+
+export const SCENARIO_PARAM = "s";
+export const SCENARIO_VERSION = 1;
+
+/**
+ * 画面で選べる時間予算。共有リンクを開くと自動で計算するので、
+ * リンクに入っている値もこの中のものしか受け付けない（ほかは既定値にする）
+ */
+export const TIME_BUDGET_CHOICES = [1000, 3000, 10000];
+export const DEFAULT_TIME_BUDGET_MS = 3000;
+
+/** 入力欄の状態（数値も入力された文字列のまま持つ） */
+export type Scenario = {
+  stores: {
+    name: string;
+    tiers: {
+      label: string;
+      threshold: string;
+      value: string;
+      maxGifts: string;
+    }[];
+  }[];
+  items: {
+    price: string;
+    quantity: string;
+    name: string;
+    sku: string;
+    note: string;
+    groupKey: string;
+    exclusiveKey: string;
+    /** stores の index */
+    store: number;
+  }[];
+  objective: TierObjective;
+  secondaryObjective: SecondaryObjective;
+  timeBudgetMs: number;
+  strategy: SearchStrategy;
+  /** 入力欄の文字列のまま */
+  seed: string;
+  checkoutRules: {
+    maxItems: string;
+    minItems: string;
+    keepSkuTogether: boolean;
+  };
+  topUpCatalog: string;
+};
+
+const OBJECTIVES: TierObjective[] = ["lexicographic", "totalGifts", "weighted"];
+const SECONDARY_OBJECTIVES: SecondaryObjective[] = [
+  "minOvershoot",
+  "maxLeftover",
+  "minCheckouts",
+];
+const STRATEGIES: SearchStrategy[] = ["greedy", "restarts", "annealing"];
+
+/** version 1 の JSON（配列の並びが意味を持つ） */
+type PackedV1 = [
+  /** stores: [name, [[label, threshold, value, maxGifts], ...]] */
+  [string, string[][]][],
+  /** items: [price, quantity, name, sku, note, groupKey, exclusiveKey, store] 末尾の空欄・0 は省略 */
+  (string | number)[][],
+  /**
+   * [objective, secondaryObjective, timeBudgetMs, maxItems, minItems, keepSkuTogether(0/1), topUpCatalog,
+   *  strategy, seed]（strategy 以降は後から足した。ないものは既定値）
+   */
+  (string | number)[]
+];
+
+export function encodeScenario(scenario: Scenario): string {
+  const packed: PackedV1 = [
+    scenario.stores.map((store) => [
+      store.name,
+      store.tiers.map((tier) =>
+        trimTrailing([tier.label, tier.threshold, tier.value, tier.maxGifts])
+      ),
+    ]),
+    scenario.items.map((item) =>
+      trimTrailing([
+        item.price,
+        item.quantity,
+        item.name,
+        item.sku,
+        item.note,
+        item.groupKey,
+        item.exclusiveKey,
+        item.store,
+      ])
+    ),
+    [
+      scenario.objective,
+      scenario.secondaryObjective,
+      scenario.timeBudgetMs,
+      scenario.checkoutRules.maxItems,
+      scenario.checkoutRules.minItems,
+      scenario.checkoutRules.keepSkuTogether ? 1 : 0,
+      scenario.topUpCatalog,
+      scenario.strategy,
+      scenario.seed,
+    ],
+  ];
+  return `${SCENARIO_VERSION}.${toBase64Url(JSON.stringify(packed))}`;
+}
+
+/** 壊れている・知らない版なら null */
+export function decodeScenario(raw: string): Scenario | null {
+  const dot = raw.indexOf(".");
+  if (dot < 0 || raw.slice(0, dot) !== String(SCENARIO_VERSION)) return null;
+
+  try {
+    return unpackV1(JSON.parse(fromBase64Url(raw.slice(dot + 1))));
+  } catch {
+    return null;
+  }
+}
+
+function unpackV1(packed: unknown): Scenario | null {
+  if (!Array.isArray(packed) || packed.length !== 3) return null;
+  const [stores, items, options] = packed as unknown[];
+  if (!Array.isArray(stores) || !stores.length) return null;
+  if (!Array.isArray(items) || !Array.isArray(options)) return null;
+
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+  const parsedStores = stores.map((store) => {
+    if (!Array.isArray(store) || !Array.isArray(store[1])) {
+      throw new Error("invalid store");
+    }
+    return {
+      name: text(store[0]),
+      tiers: (store[1] as unknown[]).map((tier) => {
+        const fields = Array.isArray(tier) ? tier : [];
+        return {
+          label: text(fields[0]),
+          threshold: text(fields[1]),
+          value: text(fields[2]),
+          maxGifts: text(fields[3]),
+        };
+      }),
+    };
+  });
+
+  const parsedItems = items.map((item) => {
+    const fields = Array.isArray(item) ? item : [];
+    const store = Number(fields[7] ?? 0);
+    return {
+      price: text(fields[0]),
+      quantity: text(fields[1]),
+      name: text(fields[2]),
+      sku: text(fields[3]),
+      note: text(fields[4]),
+      groupKey: text(fields[5]),
+      exclusiveKey: text(fields[6]),
+      store: Number.isInteger(store) && store < stores.length ? store : 0,
+    };
+  });
+
+  const [
+    objective,
+    secondary,
+    timeBudgetMs,
+    maxItems,
+    minItems,
+    keep,
+    topUp,
+    strategy,
+    seed,
+  ] = options;
+  return {
+    stores: parsedStores,
+    items: parsedItems,
+    objective: OBJECTIVES.includes(objective as TierObjective)
+      ? (objective as TierObjective)
+      : "lexicographic",
+    secondaryObjective: SECONDARY_OBJECTIVES.includes(
+      secondary as SecondaryObjective
+    )
+      ? (secondary as SecondaryObjective)
+      : "minOvershoot",
+    timeBudgetMs: TIME_BUDGET_CHOICES.includes(timeBudgetMs as number)
+      ? (timeBudgetMs as number)
+      : DEFAULT_TIME_BUDGET_MS,
+    strategy: STRATEGIES.includes(strategy as SearchStrategy)
+      ? (strategy as SearchStrategy)
+      : "greedy",
+    seed: text(seed),
+    checkoutRules: {
+      maxItems: text(maxItems),
+      minItems: text(minItems),
+      keepSkuTogether: keep === 1,
+    },
+    topUpCatalog: text(topUp),
+  };
+}
+
+/** 末尾の ""・0 を落とす（読むときは省略＝空欄・0 として扱う） */
+function trimTrailing<T extends string | number>(values: T[]) {
+  let end = values.length;
+  while (end > 0 && (values[end - 1] === "" || values[end - 1] === 0)) end--;
+  return values.slice(0, end);
+}
+
+/** UTF-8 の文字列を base64url（=なし）に。btoa は Workers・ブラウザのどちらにもある */
+function toBase64Url(value: string) {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
@@ -1,3 +1,10 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  index("routes/home.tsx"),
+  route("planner", "routes/planner.tsx"),
+  route("checkout-sheet", "routes/checkout-sheet.tsx"),
+  route("api/optimize", "routes/api.optimize.ts"),
+  route("api/scenarios", "routes/api.scenarios.ts"),
+  route("api/scenarios/:id", "routes/api.scenarios.$id.ts"),
+] satisfies RouteConfig;
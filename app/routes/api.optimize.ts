@@ -0,0 +1,54 @@
+import type { Route } from "./+types/api.optimize";
+import {
+  API_MS_PER_CLOCK_CHECK,
+  parseOptimizeRequest,
+} from "~/lib/optimize-request";
+import { createStepClock, optimizeTieredBundles } from "~/lib/optimizer";
+
+// POST /api/optimize
+// 画面を使わずに最適化だけを呼び出すための JSON API（社内の発注スクリプト向け）。
+
+const methodNotAllowed = () =>
+  Response.json(
+    { error: "method_not_allowed", message: "Use POST with a JSON body." },
+    { status: 405, headers: { Allow: "POST" } }
+  );
+
+export function loader() {
+  return methodNotAllowed();
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") return methodNotAllowed();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: "invalid_json", message: "Request body is not valid JSON." },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseOptimizeRequest(body);
+  if (!parsed.ok) {
+    return Response.json(
+      {
+        error: "invalid_request",
+        message: "Request validation failed.",
+        issues: parsed.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { items, tiers, options } = parsed.value;
+  // 時計は仕事量で進めるので、打ち切り（timedOut）も結果も実行ごとに変わらない
+  return Response.json(
+    optimizeTieredBundles(items, tiers, {
+      ...options,
+      clock: createStepClock(API_MS_PER_CLOCK_CHECK),
+    })
+  );
+}
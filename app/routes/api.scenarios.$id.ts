@@ -0,0 +1,88 @@
+import type { Route } from "./+types/api.scenarios.$id";
+import {
+  authorizeScenarioRequest,
+  deleteSavedScenario,
+  getSavedScenario,
+  parseRenameInput,
+  parseSavedScenarioInput,
+  putSavedScenario,
+  renameSavedScenario,
+} from "~/lib/saved-scenarios";
+
+// GET    /api/scenarios/:id … 読み込み
+// PUT    /api/scenarios/:id … 内容を上書き（POST と同じ body）
+// PATCH  /api/scenarios/:id … 名前の変更（{ "name": "..." }）
+// DELETE /api/scenarios/:id … 削除（204）
+// どれも Authorization: Bearer <SCENARIOS_API_TOKEN> が必要（なければ 401。KV かキーが未設定なら 503）
+
+const notFound = () =>
+  Response.json(
+    { error: "not_found", message: "Scenario not found." },
+    { status: 404 }
+  );
+
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  const { env } = context.cloudflare;
+  const denied = await authorizeScenarioRequest(request, env);
+  if (denied) return denied;
+
+  const saved = await getSavedScenario(env.SCENARIOS!, params.id);
+  return saved ? Response.json(saved) : notFound();
+}
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { env } = context.cloudflare;
+  const denied = await authorizeScenarioRequest(request, env);
+  if (denied) return denied;
+
+  const kv = env.SCENARIOS!;
+
+  if (request.method === "DELETE") {
+    return (await deleteSavedScenario(kv, params.id))
+      ? new Response(null, { status: 204 })
+      : notFound();
+  }
+
+  if (request.method !== "PUT" && request.method !== "PATCH") {
+    return Response.json(
+      {
+        error: "method_not_allowed",
+        message: "Use GET, PUT, PATCH or DELETE.",
+      },
+      { status: 405, headers: { Allow: "GET, PUT, PATCH, DELETE" } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: "invalid_json", message: "Request body is not valid JSON." },
+      { status: 400 }
+    );
+  }
+
+  if (request.method === "PATCH") {
+    const parsed = parseRenameInput(body);
+    if (!parsed.ok) return invalidRequest(parsed.issues);
+    const renamed = await renameSavedScenario(kv, params.id, parsed.value.name);
+    return renamed ? Response.json(renamed) : notFound();
+  }
+
+  const parsed = parseSavedScenarioInput(body);
+  if (!parsed.ok) return invalidRequest(parsed.issues);
+  if (!(await getSavedScenario(kv, params.id))) return notFound();
+  return Response.json(await putSavedScenario(kv, parsed.value, params.id));
+}
+
+function invalidRequest(issues: { path: string; message: string }[]) {
+  return Response.json(
+    {
+      error: "invalid_request",
+      message: "Request validation failed.",
+      issues,
+    },
+    { status: 400 }
+  );
+}
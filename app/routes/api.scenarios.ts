@@ -0,0 +1,58 @@
+import type { Route } from "./+types/api.scenarios";
+import {
+  authorizeScenarioRequest,
+  listSavedScenarios,
+  parseSavedScenarioInput,
+  putSavedScenario,
+} from "~/lib/saved-scenarios";
+
+// GET  /api/scenarios … 保存した条件の一覧（新しい順）
+// POST /api/scenarios … 新規保存（201 と保存したもの）
+// どちらも Authorization: Bearer <SCENARIOS_API_TOKEN> が必要（なければ 401。KV かキーが未設定なら 503）
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const { env } = context.cloudflare;
+  const denied = await authorizeScenarioRequest(request, env);
+  if (denied) return denied;
+
+  const scenarios = await listSavedScenarios(env.SCENARIOS!);
+  return Response.json({ scenarios });
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const { env } = context.cloudflare;
+  const denied = await authorizeScenarioRequest(request, env);
+  if (denied) return denied;
+
+  if (request.method !== "POST") {
+    return Response.json(
+      { error: "method_not_allowed", message: "Use GET or POST." },
+      { status: 405, headers: { Allow: "GET, POST" } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: "invalid_json", message: "Request body is not valid JSON." },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseSavedScenarioInput(body);
+  if (!parsed.ok) {
+    return Response.json(
+      {
+        error: "invalid_request",
+        message: "Request validation failed.",
+        issues: parsed.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  const saved = await putSavedScenario(env.SCENARIOS!, parsed.value);
+  return Response.json(saved, { status: 201 });
+}
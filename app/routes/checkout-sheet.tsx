@@ -0,0 +1,61 @@
+import { Link } from "react-router";
+
+import type { Route } from "./+types/checkout-sheet";
+import { CheckoutSheet, readCheckoutSheet } from "~/components/checkout-sheet";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "結帳單｜禮品組合最佳化" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+// 計算結果はブラウザ側（localStorage）にしかないので、サーバーでは描画しない
+export function clientLoader() {
+  return { summary: readCheckoutSheet() };
+}
+clientLoader.hydrate = true as const;
+
+export function HydrateFallback() {
+  return <main className="p-8 text-sm text-neutral-500">讀取中...</main>;
+}
+
+export default function CheckoutSheetPage({
+  loaderData,
+}: Route.ComponentProps) {
+  const { summary } = loaderData;
+
+  return (
+    <main className="min-h-svh bg-white px-4 py-8 text-neutral-900 md:px-8 print:p-0">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold">結帳單</h1>
+          <div className="flex gap-2 print:hidden">
+            {summary ? (
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="rounded-md bg-emerald-600 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-700"
+              >
+                列印
+              </button>
+            ) : null}
+            <Link
+              to="/"
+              className="rounded-md border border-neutral-300 px-4 py-2 text-sm hover:bg-neutral-100"
+            >
+              回到贈品計算
+            </Link>
+          </div>
+        </div>
+        {summary ? (
+          <CheckoutSheet summary={summary} />
+        ) : (
+          <p className="text-sm text-neutral-600">
+            沒有可顯示的結果。請先在贈品計算完成計算，再從結果開啟結帳單。
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,5 +1,8 @@
+import { Link } from "react-router";
+
 import type { Route } from "./+types/home";
 import { GiftCalculator } from "~/components/gift-calculator";
+import { decodeScenario, SCENARIO_PARAM } from "~/lib/scenario-url";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -11,12 +14,21 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-export default function Home() {
+export function loader({ request }: Route.LoaderArgs) {
+  const raw = new URL(request.url).searchParams.get(SCENARIO_PARAM);
+  const scenario = raw ? decodeScenario(raw) : null;
+  return { scenario, invalidScenario: raw !== null && scenario === null };
+}
+
+export default function Home({ loaderData }: Route.ComponentProps) {
   return (
     <main className="flex min-h-svh flex-col gap-10 bg-neutral-950 px-4 py-16 text-white md:px-8">
       <section className="mx-auto max-w-4xl rounded-3xl border border-white/10 bg-gradient-to-b from-white/10 to-white/5 p-8 shadow-2xl shadow-black/50 backdrop-blur">
         <Hero />
-        <GiftCalculator />
+        <GiftCalculator
+          initialScenario={loaderData.scenario}
+          invalidScenario={loaderData.invalidScenario}
+        />
       </section>
     </main>
   );
@@ -34,6 +46,12 @@ function Hero() {
       <p className="text-balance text-sm text-white/80 md:text-base">
         輸入購買金額列表與贈品門檻，就能立刻找到可以拿到最多贈品的組合。
       </p>
+      <Link
+        to="/planner"
+        className="inline-block text-sm text-emerald-300 hover:text-emerald-200"
+      >
+        還沒決定要買什麼？試試採購規劃 →
+      </Link>
     </div>
   );
 }
@@ -0,0 +1,47 @@
+import { Link } from "react-router";
+
+import type { Route } from "./+types/planner";
+import { PurchasePlanner } from "~/components/purchase-planner";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "採購規劃｜禮品組合最佳化" },
+    {
+      name: "description",
+      content: "從商品清單與預算，決定要買哪些商品才能拿到最多贈品。",
+    },
+  ];
+}
+
+export default function Planner() {
+  return (
+    <main className="flex min-h-svh flex-col gap-10 bg-neutral-950 px-4 py-16 text-white md:px-8">
+      <section className="mx-auto max-w-4xl rounded-3xl border border-white/10 bg-gradient-to-b from-white/10 to-white/5 p-8 shadow-2xl shadow-black/50 backdrop-blur">
+        <Hero />
+        <PurchasePlanner />
+      </section>
+    </main>
+  );
+}
+
+function Hero() {
+  return (
+    <div className="space-y-4">
+      <p className="text-xs font-semibold uppercase tracking-widest text-amber-200">
+        採購規劃
+      </p>
+      <h1 className="text-balance text-3xl font-bold leading-tight text-white md:text-4xl">
+        還沒決定要買什麼？先算出最划算的買法
+      </h1>
+      <p className="text-balance text-sm text-white/80 md:text-base">
+        輸入可購買的商品與預算（或想拿到的贈品份數），自動決定各商品的購買數量與結帳組合。
+      </p>
+      <Link
+        to="/"
+        className="inline-block text-sm text-emerald-300 hover:text-emerald-200"
+      >
+        ← 已經有購買清單？回到贈品計算
+      </Link>
+    </div>
+  );
+}
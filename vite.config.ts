@@ -11,4 +11,9 @@ export default defineConfig({
     reactRouter(),
     tsconfigPaths(),
   ],
+  worker: {
+    // optimizer.worker.ts も "~/" エイリアスで import するため
+    format: "es",
+    plugins: () => [tsconfigPaths()],
+  },
 });
@@ -1,5 +1,16 @@
 import { createRequestHandler } from "react-router";
 
+declare global {
+  namespace Cloudflare {
+    interface Env {
+      /** 保存した計算条件の KV。既定の wrangler.jsonc には入れていない（README の Deployment を参照） */
+      SCENARIOS?: KVNamespace;
+      /** /api/scenarios の共有キー（`wrangler secret put SCENARIOS_API_TOKEN`、ローカルは .dev.vars） */
+      SCENARIOS_API_TOKEN: string;
+    }
+  }
+}
+
 declare module "react-router" {
   export interface AppLoadContext {
     cloudflare: {